@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useTaskStore, Achievement } from '../store/useTaskStore';
 import { formatDistance } from 'date-fns';
+import { useClock } from '../hooks/useClock';
 
 export default function Achievements() {
   const { achievements } = useTaskStore();
@@ -11,46 +12,44 @@ export default function Achievements() {
   const lockedAchievements = achievements.filter(a => !a.isUnlocked);
   
   // Check for newly unlocked achievements
-  useEffect(() => {
-    const checkNewAchievements = () => {
-      const unlocked = achievements.filter(a => a.isUnlocked && a.unlockedAt);
-      
-      if (unlocked.length === 0) return;
-      
-      // Sort by most recently unlocked
-      const sortedUnlocked = [...unlocked].sort((a, b) => {
-        if (!a.unlockedAt || !b.unlockedAt) return 0;
-        return new Date(b.unlockedAt).getTime() - new Date(a.unlockedAt).getTime();
-      });
-      
-      const mostRecent = sortedUnlocked[0];
-      
-      // If this achievement was unlocked in the last 5 seconds, show notification
-      if (mostRecent.unlockedAt) {
-        const unlockTime = new Date(mostRecent.unlockedAt).getTime();
-        const now = Date.now();
-        const secondsSinceUnlock = (now - unlockTime) / 1000;
-        
-        if (secondsSinceUnlock < 5) {
-          setNewAchievement(mostRecent);
-          setShowNotification(true);
-          
-          // Auto-hide after 5 seconds
-          setTimeout(() => {
-            setShowNotification(false);
-          }, 5000);
-        }
-      }
-    };
+  const checkNewAchievements = useCallback(() => {
+    const unlocked = achievements.filter(a => a.isUnlocked && a.unlockedAt);
     
-    checkNewAchievements();
+    if (unlocked.length === 0) return;
     
-    // Run this check periodically
-    const interval = setInterval(checkNewAchievements, 2000);
+    // Sort by most recently unlocked
+    const sortedUnlocked = [...unlocked].sort((a, b) => {
+      if (!a.unlockedAt || !b.unlockedAt) return 0;
+      return b.unlockedAt.getTime() - a.unlockedAt.getTime();
+    });
     
-    return () => clearInterval(interval);
+    const mostRecent = sortedUnlocked[0];
+    
+    // If this achievement was unlocked in the last 5 seconds, show notification
+    if (mostRecent.unlockedAt) {
+      const unlockTime = mostRecent.unlockedAt.getTime();
+      const now = Date.now();
+      const secondsSinceUnlock = (now - unlockTime) / 1000;
+      
+      if (secondsSinceUnlock < 5) {
+        setNewAchievement(mostRecent);
+        setShowNotification(true);
+        
+        // Auto-hide after 5 seconds
+        setTimeout(() => {
+          setShowNotification(false);
+        }, 5000);
+      }
+    }
   }, [achievements]);
   
+  useEffect(() => {
+    checkNewAchievements();
+  }, [checkNewAchievements]);
+  
+  // Run this check periodically
+  useClock(2000, checkNewAchievements);
+  
   // Achievement notification component
   const AchievementNotification = ({ achievement }: { achievement: Achievement }) => {
     return (
@@ -130,7 +129,7 @@ export default function Achievements() {
                 <p className="text-sm mb-2">{achievement.description}</p>
                 {achievement.unlockedAt && (
                   <p className="text-xs text-foreground/60">
-                    Unlocked {formatDistance(new Date(achievement.unlockedAt), new Date(), { addSuffix: true })}
+                    Unlocked {formatDistance(achievement.unlockedAt, new Date(), { addSuffix: true })}
                   </p>
                 )}
               </motion.div>
@@ -0,0 +1,78 @@
+import { useEffect } from 'react';
+import { EscapeRecord, Task, useTaskStore } from '../store/useTaskStore';
+import { AlertEvent, getDeadlinesEnteringWindow, shouldAlert } from '../utils/alerts';
+import { playChime } from '../utils/sound';
+import { subscribeClock } from '../utils/clock';
+
+// How often upcoming deadlines are checked
+const DEADLINE_CHECK_INTERVAL = 60 * 1000;
+
+const escapeKey = (task: Task, escape: EscapeRecord) => `${task.id}@${escape.escapedAt.getTime()}`;
+
+const raiseAlert = (event: AlertEvent, title: string, body: string) => {
+  const { alertSettings } = useTaskStore.getState();
+  if (!shouldAlert(alertSettings, event)) return;
+
+  if (alertSettings.sound) playChime(event);
+
+  // The page itself already shows what happened while it has focus
+  if (
+    alertSettings.notifications &&
+    typeof Notification !== 'undefined' &&
+    Notification.permission === 'granted' &&
+    !document.hasFocus()
+  ) {
+    new Notification(title, { body, tag: event });
+  }
+};
+
+/**
+ * Chimes and desktop notifications for things that happen while the user
+ * looks elsewhere; renders nothing. Mounted after the TimerEngine, so a
+ * countdown that ran out while the page was closed doesn't ring on load.
+ */
+export default function AlertEngine() {
+  useEffect(() => {
+    // Escapes already known, so one that comes back with undo and redo stays quiet
+    const seenEscapes = new Set(useTaskStore.getState().tasks.flatMap(task => task.escapes.map(escape => escapeKey(task, escape))));
+
+    const unsubscribe = useTaskStore.subscribe((state, previous) => {
+      const { timer } = state;
+      if (timer.phase === 'completed' && previous.timer.phase !== 'completed') {
+        if (timer.kind === 'work') {
+          const title = state.tasks.find(t => t.id === timer.taskId)?.title;
+          raiseAlert('session-end', 'Focus session complete', title ? `You focused on "${title}". Time for a break.` : 'Time for a break.');
+        } else {
+          raiseAlert('break-end', 'Break is over', 'The tasks missed you. Back to work?');
+        }
+      }
+
+      // A new escape of a task that was already here means it just ran away
+      if (state.tasks !== previous.tasks) {
+        const tasksBefore = new Set(previous.tasks.map(t => t.id));
+        state.tasks.forEach(task => {
+          const fresh = task.escapes.filter(escape => !seenEscapes.has(escapeKey(task, escape)));
+          fresh.forEach(escape => seenEscapes.add(escapeKey(task, escape)));
+          if (fresh.length > 0 && tasksBefore.has(task.id)) {
+            raiseAlert('runaway', 'A task ran away', `"${task.title}" got tired of waiting and left.`);
+          }
+        });
+      }
+    });
+
+    let lastDeadlineCheck = new Date();
+    const unsubscribeClock = subscribeClock(DEADLINE_CHECK_INTERVAL, now => {
+      getDeadlinesEnteringWindow(useTaskStore.getState().tasks, lastDeadlineCheck, now).forEach(task => {
+        raiseAlert('deadline', 'Deadline approaching', `"${task.title}" is due within the hour.`);
+      });
+      lastDeadlineCheck = now;
+    });
+
+    return () => {
+      unsubscribe();
+      unsubscribeClock();
+    };
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import { ALERT_EVENT_LABELS, AlertEvent } from '../utils/alerts';
+import { playChime } from '../utils/sound';
+
+const ALERT_EVENTS = Object.keys(ALERT_EVENT_LABELS) as AlertEvent[];
+
+// Opt-in sounds and desktop notifications
+export default function AlertSettingsPanel() {
+  const { alertSettings, updateAlertSettings } = useTaskStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Turning sound on is a user gesture, which is also what unlocks audio
+  const toggleSound = (sound: boolean) => {
+    updateAlertSettings({ sound });
+    if (sound) playChime('session-end');
+  };
+
+  const toggleNotifications = async (notifications: boolean) => {
+    if (!notifications) {
+      updateAlertSettings({ notifications });
+      return;
+    }
+    if (typeof Notification === 'undefined') {
+      setMessage('This browser does not do desktop notifications. Sound it is.');
+      return;
+    }
+
+    const permission = Notification.permission === 'granted' ? 'granted' : await Notification.requestPermission();
+    if (permission === 'granted') {
+      updateAlertSettings({ notifications });
+      setMessage(null);
+    } else {
+      setMessage('Notifications are blocked for this site. Allow them in the browser settings first.');
+    }
+  };
+
+  const toggleEvent = (event: AlertEvent, enabled: boolean) => {
+    updateAlertSettings({ events: { ...alertSettings.events, [event]: enabled } });
+  };
+
+  return (
+    <div className="mt-6 w-full max-w-md mx-auto p-4 bg-background/80 backdrop-blur-sm rounded-xl border border-primary/20 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center font-bold"
+      >
+        <span>🔔 Alerts</span>
+        <span className="text-foreground/60">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-3">
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={alertSettings.sound}
+                onChange={(e) => toggleSound(e.target.checked)}
+              />
+              Chimes
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={alertSettings.notifications}
+                onChange={(e) => toggleNotifications(e.target.checked)}
+              />
+              Desktop notifications
+            </label>
+          </div>
+
+          {message && <p className="text-xs text-error">{message}</p>}
+
+          <div>
+            <p className="text-foreground/70 mb-1">Alert me when</p>
+            <div className="grid grid-cols-2 gap-1">
+              {ALERT_EVENTS.map(event => (
+                <label key={event} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={alertSettings.events[event]}
+                    onChange={(e) => toggleEvent(event, e.target.checked)}
+                  />
+                  {ALERT_EVENT_LABELS[event]}
+                  <button
+                    onClick={() => playChime(event)}
+                    className="text-foreground/40 hover:text-foreground"
+                    title="Preview"
+                  >
+                    ▶
+                  </button>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={alertSettings.quietHours.enabled}
+                onChange={(e) => updateAlertSettings({ quietHours: { ...alertSettings.quietHours, enabled: e.target.checked } })}
+              />
+              Quiet hours
+            </label>
+            <input
+              type="time"
+              value={alertSettings.quietHours.start}
+              onChange={(e) => updateAlertSettings({ quietHours: { ...alertSettings.quietHours, start: e.target.value } })}
+              disabled={!alertSettings.quietHours.enabled}
+              className="px-2 py-1 bg-background border border-primary/20 rounded disabled:opacity-50"
+              aria-label="Quiet hours start"
+            />
+            <span>to</span>
+            <input
+              type="time"
+              value={alertSettings.quietHours.end}
+              onChange={(e) => updateAlertSettings({ quietHours: { ...alertSettings.quietHours, end: e.target.value } })}
+              disabled={!alertSettings.quietHours.enabled}
+              className="px-2 py-1 bg-background border border-primary/20 rounded disabled:opacity-50"
+              aria-label="Quiet hours end"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTaskStore } from '../store/useTaskStore';
+import { Command, searchCommands } from '../utils/commands';
+import { MOD_KEY, formatKey, isEditingText } from '../utils/keyboard';
+import { getBlockingTasks } from '../utils/dependencies';
+import { isBreak } from '../utils/pomodoro';
+
+const MAX_RESULTS = 8;
+
+// Every shortcut, including the ones that only work in some timer states
+const SHEET_SHORTCUTS = [
+  { keys: 'Space', label: 'Start, pause or resume the timer' },
+  { keys: '+', label: 'Distort time, then more of it' },
+  { keys: '-', label: 'While distorted: less distortion, then back to normal time' },
+  { keys: 'N', label: 'New task' },
+  { keys: `${MOD_KEY} K`, label: 'Open the command palette' },
+  { keys: `${MOD_KEY} Z`, label: 'Undo' },
+  { keys: `${MOD_KEY} Shift Z`, label: 'Redo' },
+  { keys: '?', label: 'Show this cheat sheet' }
+];
+
+interface CommandPaletteProps {
+  tabs: { id: string; label: string; emoji: string }[];
+  selectedTaskId?: string;
+  onSelectTab: (tabId: string) => void;
+  onNewTask: () => void;
+  onFocusTask: (taskId: string) => void;
+}
+
+function Keycap({ children }: { children: React.ReactNode }) {
+  return (
+    <kbd className="px-1.5 py-0.5 rounded border border-foreground/20 bg-foreground/5 font-mono text-xs">{children}</kbd>
+  );
+}
+
+// Ctrl/Cmd+K palette, single-key shortcuts and the "?" cheat sheet
+export default function CommandPalette({ tabs, selectedTaskId, onSelectTab, onNewTask, onFocusTask }: CommandPaletteProps) {
+  const {
+    tasks,
+    timer,
+    startTimer,
+    pauseTimer,
+    resumeTimer,
+    resetTimer,
+    advanceTimer,
+    skipBreak,
+    toggleTimeDistortion,
+    setTimerDistortionLevel
+  } = useTaskStore();
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const focusTask = tasks.find(t => t.id === selectedTaskId);
+  const canDistort = !isBreak(timer.kind) && (timer.phase === 'running' || timer.phase === 'distorted');
+
+  // Same as the big button on the focus tab; a blocked task needs its warning confirmed there
+  const toggleTimer = () => {
+    switch (timer.phase) {
+      case 'running':
+      case 'distorted':
+        return pauseTimer();
+      case 'paused':
+        return resumeTimer();
+      case 'completed':
+        return advanceTimer();
+      default:
+        if (focusTask && getBlockingTasks(focusTask, tasks).length > 0) return onSelectTab('focus');
+        startTimer(selectedTaskId);
+    }
+  };
+
+  // "+" warps a normal countdown, "-" eases a distorted one down and at
+  // zero distortion brings it back to normal time
+  const moreDistortion = () => {
+    if (timer.phase === 'running') toggleTimeDistortion();
+    else setTimerDistortionLevel(timer.distortionLevel + 10);
+  };
+
+  const lessDistortion = () => {
+    if (timer.phase !== 'distorted') return;
+    if (timer.distortionLevel > 0) setTimerDistortionLevel(timer.distortionLevel - 10);
+    else toggleTimeDistortion();
+  };
+
+  const commands: Command[] = [
+    {
+      id: 'toggle-timer',
+      label: {
+        running: 'Pause timer',
+        distorted: 'Pause timer',
+        paused: 'Resume timer',
+        completed: 'Start next interval',
+        idle: focusTask ? `Start focusing on "${focusTask.title}"` : 'Start focus timer'
+      }[timer.phase],
+      group: 'Timer',
+      shortcut: ' ',
+      keywords: 'start pause resume play stop',
+      run: toggleTimer
+    },
+    ...(canDistort ? [
+      { id: 'more-distortion', label: timer.phase === 'running' ? 'Distort time' : 'More distortion', group: 'Timer' as const, shortcut: '+', keywords: 'warp faster madness', run: moreDistortion }
+    ] : []),
+    // Only a distorted countdown has anything to take back
+    ...(canDistort && timer.phase === 'distorted' ? [
+      { id: 'less-distortion', label: timer.distortionLevel > 0 ? 'Less distortion' : 'Back to normal time', group: 'Timer' as const, shortcut: '-', keywords: 'warp slower reality', run: lessDistortion }
+    ] : []),
+    ...(timer.phase !== 'idle' ? [{ id: 'reset-timer', label: 'Reset timer', group: 'Timer' as const, run: resetTimer }] : []),
+    ...(isBreak(timer.kind) && timer.phase !== 'idle' ? [{ id: 'skip-break', label: 'Skip break', group: 'Timer' as const, run: skipBreak }] : []),
+    { id: 'new-task', label: 'New task', group: 'Tasks', shortcut: 'n', keywords: 'add create', run: onNewTask },
+    ...tasks
+      .filter(task => task.status !== 'completed')
+      .map(task => ({
+        id: `focus-${task.id}`,
+        label: `Focus on "${task.title}"`,
+        group: 'Tasks' as const,
+        keywords: task.tags.join(' '),
+        run: () => onFocusTask(task.id)
+      })),
+    ...tabs.map((tab, i) => ({
+      id: `tab-${tab.id}`,
+      label: `${tab.emoji} ${tab.label}`,
+      group: 'Go to' as const,
+      shortcut: String(i + 1),
+      run: () => onSelectTab(tab.id)
+    })),
+    { id: 'shortcuts', label: 'Keyboard shortcuts', group: 'Go to', shortcut: '?', keywords: 'help cheat sheet keys', run: () => setIsSheetOpen(true) }
+  ];
+
+  const results = searchCommands(commands, query).slice(0, MAX_RESULTS);
+
+  const openPalette = () => {
+    setQuery('');
+    setHighlighted(0);
+    setIsSheetOpen(false);
+    setIsPaletteOpen(true);
+  };
+
+  const runCommand = (command: Command) => {
+    setIsPaletteOpen(false);
+    command.run();
+  };
+
+  // Global keys; re-subscribed every render so handlers see the latest state
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        if (isPaletteOpen) setIsPaletteOpen(false);
+        else openPalette();
+        return;
+      }
+      if (e.key === 'Escape') {
+        setIsPaletteOpen(false);
+        setIsSheetOpen(false);
+        return;
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || isEditingText(e.target) || isPaletteOpen) return;
+      // Space on a focused button already clicks it
+      if (e.key === ' ' && e.target instanceof HTMLButtonElement) return;
+
+      const key = e.key === '=' ? '+' : e.key.toLowerCase(); // "+" without Shift
+      const command = commands.find(c => c.shortcut === key);
+      if (command) {
+        e.preventDefault();
+        command.run();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handlePaletteKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(Math.min(results.length - 1, highlighted + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(Math.max(0, highlighted - 1));
+    } else if (e.key === 'Enter' && results[highlighted]) {
+      e.preventDefault();
+      runCommand(results[highlighted]);
+    }
+  };
+
+  return (
+    <>
+      {/* Discoverable without knowing the shortcut */}
+      <button
+        onClick={() => setIsSheetOpen(true)}
+        className="fixed bottom-24 right-4 z-20 w-8 h-8 rounded-full bg-background/80 border border-primary/30 text-foreground/60 hover:text-foreground"
+        title="Keyboard shortcuts (?)"
+      >
+        ?
+      </button>
+
+      <AnimatePresence>
+        {isPaletteOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-start justify-center pt-32 bg-black/50"
+            onClick={() => setIsPaletteOpen(false)}
+          >
+            <motion.div
+              initial={{ y: -20 }}
+              animate={{ y: 0 }}
+              className="w-full max-w-lg mx-4 bg-background border border-primary/30 rounded-xl shadow-2xl overflow-hidden"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <input
+                autoFocus
+                type="text"
+                value={query}
+                onChange={(e) => { setQuery(e.target.value); setHighlighted(0); }}
+                onKeyDown={handlePaletteKeyDown}
+                placeholder="Type a command or a task..."
+                className="w-full px-4 py-3 bg-transparent border-b border-primary/20 outline-none"
+                aria-label="Command"
+              />
+              {results.length === 0 ? (
+                <p className="px-4 py-3 text-sm italic text-foreground/60">Nothing matches. Not even procrastination.</p>
+              ) : (
+                <ul className="py-2 max-h-80 overflow-y-auto">
+                  {results.map((command, i) => (
+                    <li key={command.id}>
+                      <button
+                        onClick={() => runCommand(command)}
+                        onMouseEnter={() => setHighlighted(i)}
+                        className={`w-full flex items-center justify-between gap-2 px-4 py-2 text-sm text-left ${i === highlighted ? 'bg-primary/15' : ''}`}
+                      >
+                        <span className="truncate">{command.label}</span>
+                        <span className="flex items-center gap-2 shrink-0 text-xs text-foreground/50">
+                          {command.group}
+                          {command.shortcut && <Keycap>{formatKey(command.shortcut)}</Keycap>}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+
+        {isSheetOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+            onClick={() => setIsSheetOpen(false)}
+          >
+            <div
+              className="w-full max-w-md mx-4 p-5 bg-background border border-primary/30 rounded-xl shadow-2xl text-sm"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-center mb-3">
+                <h3 className="font-bold text-lg">⌨️ Keyboard shortcuts</h3>
+                <button onClick={() => setIsSheetOpen(false)} className="text-gray-400 hover:text-gray-500">
+                  <span className="sr-only">Close</span>✕
+                </button>
+              </div>
+              {[
+                ...SHEET_SHORTCUTS,
+                ...tabs.map((tab, i) => ({ keys: String(i + 1), label: `Go to ${tab.label}` }))
+              ].map(shortcut => (
+                <div key={shortcut.label} className="flex justify-between py-0.5">
+                  <span>{shortcut.label}</span>
+                  <Keycap>{shortcut.keys}</Keycap>
+                </div>
+              ))}
+              <p className="mt-3 text-xs italic text-foreground/60">
+                Distortion keys only work while a focus interval is ticking. Reality has rules. Some.
+              </p>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
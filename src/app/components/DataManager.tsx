@@ -0,0 +1,250 @@
+import React, { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { useTaskStore } from '../store/useTaskStore';
+import {
+  BackupError,
+  ImportStrategy,
+  ParsedBackup,
+  createBackup,
+  parseBackup,
+  serializeBackup
+} from '../store/backup';
+import { downloadFile } from '../utils/download';
+import { generateICalendar, parseICalendarTodos, taskIdFromUid } from '../utils/ical';
+
+const STRATEGIES: { id: ImportStrategy; label: string; description: string }[] = [
+  { id: 'replace', label: 'Replace', description: 'Throw away what is here and use the backup.' },
+  { id: 'merge', label: 'Merge by id', description: 'Add records from the backup that are not here yet.' },
+  { id: 'newest', label: 'Keep newest', description: 'Merge, and when both sides have a record keep the most recent one.' }
+];
+
+export default function DataManager() {
+  const {
+    tasks, projects, focusSessions, breakSessions, productivityStats, achievements,
+    distortionProfiles, personalityPacks, importData, importCalendar
+  } = useTaskStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const calendarInputRef = useRef<HTMLInputElement>(null);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [strategy, setStrategy] = useState<ImportStrategy>('merge');
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Download everything as a versioned JSON file
+  const handleExport = () => {
+    const backup = createBackup({
+      tasks, projects, focusSessions, breakSessions, productivityStats, achievements, distortionProfiles, personalityPacks
+    });
+    downloadFile(
+      `timewarp-backup-${format(backup.exportedAt, 'yyyy-MM-dd-HHmm')}.json`,
+      serializeBackup(backup),
+      'application/json'
+    );
+    setMessage('Backup downloaded. Guard it with your life (or at least a USB stick).');
+  };
+
+  // Parse the chosen file and show a summary before anything is changed
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setPendingImport(parseBackup(await file.text()));
+      setMessage(null);
+    } catch (error) {
+      setPendingImport(null);
+      setMessage(error instanceof BackupError ? error.message : 'Something went wrong reading that file.');
+    }
+  };
+
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    importData(pendingImport.data, strategy);
+    setMessage(`Imported ${pendingImport.data.tasks.length} tasks and ${pendingImport.data.focusSessions.length} focus sessions.`);
+    setPendingImport(null);
+  };
+
+  // Deadlines as VTODOs and finished focus sessions as VEVENTs
+  const handleCalendarExport = () => {
+    downloadFile(
+      `timewarp-${format(new Date(), 'yyyy-MM-dd')}.ics`,
+      generateICalendar(tasks, focusSessions),
+      'text/calendar'
+    );
+    setMessage('Calendar exported. Your deadlines can now haunt you in two places.');
+  };
+
+  // Turn open VTODOs into tasks, skipping ones this app exported itself
+  const handleCalendarSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let parsed: ReturnType<typeof parseICalendarTodos>;
+    try {
+      parsed = parseICalendarTodos(await file.text());
+    } catch {
+      setMessage('Something went wrong reading that calendar file.');
+      return;
+    }
+
+    const { todos, skipped } = parsed;
+    const newTodos = todos.filter(todo => {
+      const existingId = taskIdFromUid(todo.uid);
+      return !existingId || !tasks.some(t => t.id === existingId);
+    });
+
+    importCalendar(newTodos.map(todo => ({
+      title: todo.title,
+      description: todo.description,
+      importance: todo.importance,
+      deadline: todo.deadline
+    })));
+
+    const duplicates = todos.length - newTodos.length;
+    setMessage(
+      `Imported ${newTodos.length} task${newTodos.length !== 1 ? 's' : ''} from the calendar` +
+      (duplicates > 0 ? `, ${duplicates} already here` : '') +
+      (skipped > 0 ? `, ${skipped} completed or cancelled skipped` : '') +
+      '.'
+    );
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4">
+      <div className="p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+        <h3 className="font-bold text-lg mb-1">Backup &amp; Restore</h3>
+        <p className="text-sm text-foreground/70 mb-4">
+          Take your tasks, focus sessions, stats and achievements with you to another browser.
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleExport}
+            className="px-4 py-2 bg-primary text-white rounded-lg text-sm"
+          >
+            Export Backup
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-secondary text-white rounded-lg text-sm"
+          >
+            Import Backup
+          </motion.button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileSelected}
+            className="hidden"
+          />
+        </div>
+
+        <h4 className="font-bold mt-4 mb-1">Calendar</h4>
+        <p className="text-sm text-foreground/70 mb-2">
+          Export deadlines and logged focus blocks as an .ics file, or import to-dos from your calendar app.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleCalendarExport}
+            className="px-4 py-2 bg-primary text-white rounded-lg text-sm"
+          >
+            Export .ics
+          </motion.button>
+
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={() => calendarInputRef.current?.click()}
+            className="px-4 py-2 bg-secondary text-white rounded-lg text-sm"
+          >
+            Import .ics
+          </motion.button>
+          <input
+            ref={calendarInputRef}
+            type="file"
+            accept="text/calendar,.ics"
+            onChange={handleCalendarSelected}
+            className="hidden"
+          />
+        </div>
+
+        {message && <p className="mt-3 text-sm italic">{message}</p>}
+
+        {/* Import preview */}
+        {pendingImport && (
+          <motion.div
+            initial={{ opacity: 0, y: -10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mt-4 p-3 bg-primary/10 rounded-lg text-sm"
+          >
+            <p className="font-medium">
+              Backup{pendingImport.exportedAt ? ` from ${format(pendingImport.exportedAt, 'MMM d, yyyy HH:mm')}` : ''}:{' '}
+              {pendingImport.data.tasks.length} tasks, {pendingImport.data.projects.length} projects, {pendingImport.data.focusSessions.length} focus sessions,{' '}
+              {pendingImport.data.breakSessions.length} breaks,{' '}
+              {pendingImport.data.achievements.filter(a => a.isUnlocked).length} unlocked achievements
+              {pendingImport.data.distortionProfiles && `, ${pendingImport.data.distortionProfiles.length} distortion curves`}
+              {pendingImport.data.personalityPacks && `, ${pendingImport.data.personalityPacks.length} personality packs`}.
+            </p>
+
+            {pendingImport.issues.length > 0 && (
+              <div className="mt-2">
+                <p className="text-error font-medium">
+                  {pendingImport.issues.length} record{pendingImport.issues.length !== 1 ? 's' : ''} will be skipped:
+                </p>
+                <ul className="list-disc list-inside max-h-32 overflow-y-auto text-xs">
+                  {pendingImport.issues.map((issue) => (
+                    <li key={`${issue.collection}-${issue.index}`}>
+                      {issue.collection} #{issue.index + 1}{issue.id ? ` (${issue.id})` : ''}: {issue.problems.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="mt-3 space-y-1">
+              {STRATEGIES.map((option) => (
+                <label key={option.id} className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="import-strategy"
+                    checked={strategy === option.id}
+                    onChange={() => setStrategy(option.id)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="text-foreground/70"> – {option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="mt-3 flex gap-2">
+              <button
+                onClick={handleConfirmImport}
+                className="px-4 py-1 bg-success text-white rounded"
+              >
+                Import
+              </button>
+              <button
+                onClick={() => setPendingImport(null)}
+                className="px-4 py-1 bg-gray-700 text-white rounded"
+              >
+                Cancel
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
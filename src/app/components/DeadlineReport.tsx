@@ -0,0 +1,115 @@
+import React from 'react';
+import { formatDistanceStrict } from 'date-fns';
+import { useTaskStore } from '../store/useTaskStore';
+import { useClockNow } from '../hooks/useClock';
+import {
+  DEADLINE_CLASSES,
+  DeadlineClass,
+  NEAR_MISS_SECONDS,
+  formatSlack,
+  getDeadlineOutcomes,
+  getDeadlineTrend,
+  getOverdueTasks,
+  summarizeDeadlines
+} from '../utils/deadlines';
+
+const TREND_WEEKS = 8;
+const CLASS_ORDER: DeadlineClass[] = ['early', 'on-time', 'near-miss', 'late'];
+
+// Deadline performance of completed tasks, and what's overdue right now
+export default function DeadlineReport() {
+  const tasks = useTaskStore(state => state.tasks);
+  const now = useClockNow(60 * 1000);
+
+  const outcomes = getDeadlineOutcomes(tasks);
+  const summary = summarizeDeadlines(outcomes);
+  const trend = getDeadlineTrend(outcomes, TREND_WEEKS, now);
+  const busiestWeek = Math.max(1, ...trend.map(week => CLASS_ORDER.reduce((total, c) => total + week.counts[c], 0)));
+  const overdueTasks = getOverdueTasks(tasks, now);
+
+  if (!summary && overdueTasks.length === 0) return null;
+
+  return (
+    <div className="mt-6 p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+      <h3 className="font-bold text-lg mb-3">Deadlines</h3>
+
+      {summary ? (
+        <>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Made it in time</span>
+              <span className="font-medium">{Math.round(summary.onTimeRate * 100)}% of {summary.total}</span>
+            </div>
+            <div className="flex w-full h-2 rounded-full overflow-hidden bg-gray-200">
+              {CLASS_ORDER.map(c => summary.counts[c] > 0 && (
+                <div
+                  key={c}
+                  className={DEADLINE_CLASSES[c].className}
+                  style={{ width: `${(summary.counts[c] / summary.total) * 100}%` }}
+                  title={`${DEADLINE_CLASSES[c].label}: ${summary.counts[c]}`}
+                ></div>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-foreground/70">
+              {CLASS_ORDER.map(c => (
+                <span key={c} className="flex items-center gap-1">
+                  <span className={`inline-block w-2 h-2 rounded-full ${DEADLINE_CLASSES[c].className}`}></span>
+                  {DEADLINE_CLASSES[c].label} {summary.counts[c]}
+                </span>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              <span>Typical finish</span>
+              <span className="font-medium">{formatSlack(summary.medianSlack)}</span>
+            </div>
+          </div>
+
+          <p className="text-sm font-medium mt-4 mb-2">Last {TREND_WEEKS} weeks</p>
+          <div className="flex items-end gap-1 h-20">
+            {trend.map(week => (
+              <div
+                key={week.start.getTime()}
+                className="flex-1 flex flex-col-reverse h-full"
+                title={`${week.label}: ${CLASS_ORDER.map(c => `${week.counts[c]} ${DEADLINE_CLASSES[c].label.toLowerCase()}`).join(', ')}`}
+              >
+                {CLASS_ORDER.map(c => week.counts[c] > 0 && (
+                  <div
+                    key={c}
+                    className={DEADLINE_CLASSES[c].className}
+                    style={{ height: `${(week.counts[c] / busiestWeek) * 100}%` }}
+                  ></div>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-foreground/50 mt-1">
+            <span>{trend[0].label}</span>
+            <span>This week</span>
+          </div>
+          <p className="text-xs text-foreground/60 mt-2 italic">
+            A near miss is finishing less than {NEAR_MISS_SECONDS / 60} minutes before the deadline. Adrenaline is not a strategy.
+          </p>
+        </>
+      ) : (
+        <p className="text-sm italic text-foreground/60">No task with a deadline completed yet.</p>
+      )}
+
+      {overdueTasks.length > 0 && (
+        <>
+          <h4 className="font-medium text-sm mt-4 mb-2">Overdue right now</h4>
+          <ul className="space-y-1 text-sm">
+            {overdueTasks.map(({ task, overdue }) => (
+              <li key={task.id} className="flex justify-between gap-2">
+                <span className="truncate">
+                  {task.title}
+                  {task.status === 'running-away' && ' 🏃'}
+                </span>
+                <span className="shrink-0 text-error">{formatDistanceStrict(0, overdue * 1000)} overdue</span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import {
+  CURVE_LEVELS,
+  DistortionProfile,
+  MAX_RATE,
+  MIN_RATE,
+  curveRate,
+  findDistortionProfile,
+  formatRate,
+  getDistortionProfiles,
+  isPresetProfile
+} from '../utils/distortion';
+import { isTimerActive, timerRate } from '../utils/timer';
+
+const GRAPH_WIDTH = 280;
+const GRAPH_HEIGHT = 120;
+
+const graphX = (level: number) => (level / 100) * GRAPH_WIDTH;
+const graphY = (rate: number) => ((MAX_RATE - rate) / (MAX_RATE - MIN_RATE)) * GRAPH_HEIGHT;
+
+interface CurveGraphProps {
+  profile: DistortionProfile;
+  level?: number; // marks where the running countdown sits on the curve
+}
+
+// Level along the bottom, countdown rate up the side
+function CurveGraph({ profile, level }: CurveGraphProps) {
+  const points = CURVE_LEVELS.map((curveLevel, i) => `${graphX(curveLevel)},${graphY(profile.rates[i])}`).join(' ');
+
+  return (
+    <svg
+      viewBox={`-4 -4 ${GRAPH_WIDTH + 8} ${GRAPH_HEIGHT + 8}`}
+      className="w-full h-32 rounded bg-primary/5"
+      role="img"
+      aria-label={`${profile.name} distortion curve`}
+    >
+      {/* Real time, and time standing still */}
+      <line x1={0} x2={GRAPH_WIDTH} y1={graphY(1)} y2={graphY(1)} className="stroke-primary/40" strokeDasharray="4 4" />
+      <line x1={0} x2={GRAPH_WIDTH} y1={graphY(0)} y2={graphY(0)} className="stroke-foreground/30" />
+      <text x={GRAPH_WIDTH} y={graphY(1) - 3} textAnchor="end" className="fill-foreground/50 text-[8px]">1x</text>
+      <text x={GRAPH_WIDTH} y={graphY(0) + 9} textAnchor="end" className="fill-foreground/50 text-[8px]">0x</text>
+
+      <polyline points={points} fill="none" className="stroke-time-warp" strokeWidth={2} />
+      {CURVE_LEVELS.map((curveLevel, i) => (
+        <circle key={curveLevel} cx={graphX(curveLevel)} cy={graphY(profile.rates[i])} r={2.5} className="fill-time-warp" />
+      ))}
+
+      {level !== undefined && (
+        <circle cx={graphX(level)} cy={graphY(curveRate(profile.rates, level))} r={5} className="fill-secondary animate-pulse" />
+      )}
+    </svg>
+  );
+}
+
+// Pick, preview and shape the curves that decide how fast distorted time runs
+export default function DistortionProfilesPanel() {
+  const {
+    timer,
+    distortionProfiles,
+    distortionProfileId,
+    selectDistortionProfile,
+    addDistortionProfile,
+    updateDistortionProfile,
+    deleteDistortionProfile
+  } = useTaskStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profiles = getDistortionProfiles(distortionProfiles);
+  const selected = findDistortionProfile(distortionProfiles, distortionProfileId);
+  const editable = !isPresetProfile(selected.id);
+  const sessionActive = isTimerActive(timer);
+  // The running session keeps its own copy of the curve it started with
+  const showsRunningCurve = timer.phase === 'distorted' && timer.profile.id === selected.id;
+
+  const setRate = (index: number, rate: number) => {
+    setError(updateDistortionProfile(selected.id, { rates: selected.rates.map((r, i) => i === index ? rate : r) }) ?? null);
+  };
+
+  return (
+    <div className="mt-6 w-full max-w-md mx-auto p-4 bg-background/80 backdrop-blur-sm rounded-xl border border-primary/20 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex justify-between items-center font-bold"
+      >
+        <span>🌀 Distortion curves</span>
+        <span className="text-foreground/60">{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 flex flex-col gap-3">
+          <div className="flex gap-2 items-center">
+            <select
+              value={selected.id}
+              onChange={(e) => {
+                selectDistortionProfile(e.target.value);
+                setError(null);
+              }}
+              className="flex-1 px-2 py-1 bg-background border border-primary/20 rounded"
+              aria-label="Distortion profile"
+            >
+              {profiles.map(profile => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}{isPresetProfile(profile.id) ? ' (preset)' : ''}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => addDistortionProfile(`${selected.name} (copy)`, selected.rates)}
+              className="px-3 py-1 bg-primary text-white rounded"
+            >
+              Duplicate
+            </button>
+            {editable && (
+              <button
+                onClick={() => deleteDistortionProfile(selected.id)}
+                className="px-3 py-1 bg-error text-white rounded"
+              >
+                Delete
+              </button>
+            )}
+          </div>
+
+          {sessionActive && timer.kind === 'work' && (
+            <p className="text-xs text-foreground/60">
+              This session runs on &quot;{timer.profile.name}&quot;
+              {showsRunningCurve && ` at ${formatRate(timerRate(timer))}`}. Changes apply from the next one.
+            </p>
+          )}
+
+          <CurveGraph profile={selected} level={showsRunningCurve ? timer.distortionLevel : undefined} />
+
+          {editable ? (
+            <>
+              <input
+                type="text"
+                value={selected.name}
+                onChange={(e) => setError(updateDistortionProfile(selected.id, { name: e.target.value }) ?? null)}
+                className="px-2 py-1 bg-background border border-primary/20 rounded"
+                aria-label="Curve name"
+              />
+              <div className="grid grid-cols-[3rem_1fr_3rem] gap-x-2 gap-y-1 items-center">
+                {CURVE_LEVELS.map((level, i) => (
+                  <React.Fragment key={level}>
+                    <span className="text-foreground/60">{level}%</span>
+                    <input
+                      type="range"
+                      min={MIN_RATE}
+                      max={MAX_RATE}
+                      step={0.1}
+                      value={selected.rates[i]}
+                      onChange={(e) => setRate(i, Number(e.target.value))}
+                      aria-label={`Rate at ${level}% distortion`}
+                    />
+                    <span className="font-mono text-right">{formatRate(selected.rates[i])}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs italic text-foreground/60">
+              Presets are set in stone (unlike time). Duplicate one to bend it your way.
+            </p>
+          )}
+
+          {error && <p className="text-xs text-error">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import React, { useState } from 'react';
+import { format, parseISO, startOfDay } from 'date-fns';
+import { useTaskStore } from '../store/useTaskStore';
+import { getDailyActivity } from '../utils/streaks';
+import { ChartBucket, DateRange, Granularity, RANGE_PRESETS, bucketActivity, getHeatmapWeeks, presetRange } from '../utils/charts';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+
+const HEATMAP_CELL = 11;
+const HEATMAP_GAP = 2;
+const HEATMAP_LEVELS = ['fill-foreground/10', 'fill-primary/30', 'fill-primary/55', 'fill-primary/80', 'fill-primary'];
+
+const formatMinutes = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m` : `${Math.round(minutes)}m`;
+
+interface BarChartProps {
+  buckets: ChartBucket[];
+  value: (bucket: ChartBucket) => number;
+  format: (value: number) => string;
+  barClassName: string;
+}
+
+function BarChart({ buckets, value, format: formatValue, barClassName }: BarChartProps) {
+  const max = Math.max(0, ...buckets.map(value));
+  const slot = CHART_WIDTH / Math.max(1, buckets.length);
+  const gap = slot > 6 ? 2 : 0;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-36" preserveAspectRatio="none" role="img">
+        <line x1={0} x2={CHART_WIDTH} y1={CHART_HEIGHT - 0.5} y2={CHART_HEIGHT - 0.5} className="stroke-foreground/20" />
+        {buckets.map((bucket, i) => {
+          const height = max > 0 ? (value(bucket) / max) * (CHART_HEIGHT - 4) : 0;
+          return (
+            <rect
+              key={bucket.start.getTime()}
+              x={i * slot + gap / 2}
+              y={CHART_HEIGHT - height}
+              width={Math.max(0.5, slot - gap)}
+              height={height}
+              className={barClassName}
+            >
+              <title>{`${bucket.label}: ${formatValue(value(bucket))}`}</title>
+            </rect>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-xs text-foreground/50 mt-1">
+        <span>{buckets[0]?.label}</span>
+        <span>peak {formatValue(max)}</span>
+        <span>{buckets[buckets.length - 1]?.label}</span>
+      </div>
+    </div>
+  );
+}
+
+// Focus and completed tasks over time, for everything or a single task
+export default function FocusHistory() {
+  const { tasks, focusSessions } = useTaskStore();
+  const [rangeDays, setRangeDays] = useState<number | 'custom'>(30);
+  const [customRange, setCustomRange] = useState({
+    from: format(presetRange(30).from, 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd')
+  });
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [taskId, setTaskId] = useState('');
+
+  // A custom range given backwards is read the right way round
+  const range: DateRange = (() => {
+    if (rangeDays !== 'custom') return presetRange(rangeDays);
+    const from = parseISO(customRange.from);
+    const to = parseISO(customRange.to);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) return presetRange(30);
+    return from <= to ? { from: startOfDay(from), to: startOfDay(to) } : { from: startOfDay(to), to: startOfDay(from) };
+  })();
+
+  // Drill down to one task
+  const activity = taskId
+    ? getDailyActivity(tasks.filter(t => t.id === taskId), focusSessions.filter(s => s.taskId === taskId))
+    : getDailyActivity(tasks, focusSessions);
+
+  const focusBuckets = bucketActivity(activity, range, granularity);
+  const weeklyBuckets = bucketActivity(activity, range, 'week');
+  const heatmap = getHeatmapWeeks(activity, range.to);
+
+  const totalMinutes = focusBuckets.reduce((total, bucket) => total + bucket.focusMinutes, 0);
+  const totalCompleted = weeklyBuckets.reduce((total, bucket) => total + bucket.tasksCompleted, 0);
+  const pickableTasks = tasks
+    .filter(task => task.timeSpent > 0 || task.status === 'completed')
+    .sort((a, b) => a.title.localeCompare(b.title));
+
+  return (
+    <div className="mt-6 p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="font-bold text-lg">History</h3>
+        <div className="flex flex-wrap gap-2 text-sm">
+          <select
+            value={taskId}
+            onChange={(e) => setTaskId(e.target.value)}
+            className="p-1 bg-background border border-primary/20 rounded"
+            aria-label="Task"
+          >
+            <option value="">All tasks</option>
+            {pickableTasks.map(task => (
+              <option key={task.id} value={task.id}>{task.title}</option>
+            ))}
+          </select>
+          <select
+            value={rangeDays}
+            onChange={(e) => setRangeDays(e.target.value === 'custom' ? 'custom' : Number(e.target.value))}
+            className="p-1 bg-background border border-primary/20 rounded"
+            aria-label="Date range"
+          >
+            {RANGE_PRESETS.map(preset => (
+              <option key={preset.days} value={preset.days}>{preset.label}</option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+          {rangeDays === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={customRange.from}
+                onChange={(e) => setCustomRange({ ...customRange, from: e.target.value })}
+                className="p-1 bg-background border border-primary/20 rounded"
+                aria-label="From"
+              />
+              <input
+                type="date"
+                value={customRange.to}
+                onChange={(e) => setCustomRange({ ...customRange, to: e.target.value })}
+                className="p-1 bg-background border border-primary/20 rounded"
+                aria-label="To"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="mb-6">
+        <div className="flex justify-between items-center text-sm mb-2">
+          <span className="font-medium">Focus per {granularity} · {formatMinutes(totalMinutes)} total</span>
+          <div className="flex gap-1">
+            {(['day', 'week'] as Granularity[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-2 py-0.5 rounded ${granularity === option ? 'bg-primary text-white' : 'bg-primary/10'}`}
+              >
+                {option === 'day' ? 'Daily' : 'Weekly'}
+              </button>
+            ))}
+          </div>
+        </div>
+        <BarChart buckets={focusBuckets} value={bucket => bucket.focusMinutes} format={formatMinutes} barClassName="fill-primary" />
+      </div>
+
+      <div className="mb-6">
+        <p className="text-sm font-medium mb-2">Tasks completed per week · {totalCompleted} total</p>
+        <BarChart
+          buckets={weeklyBuckets}
+          value={bucket => bucket.tasksCompleted}
+          format={count => `${count} task${count !== 1 ? 's' : ''}`}
+          barClassName="fill-success"
+        />
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">The year up to {format(range.to, 'MMM d, yyyy')}</p>
+        <div className="overflow-x-auto">
+          <svg
+            width={heatmap.length * (HEATMAP_CELL + HEATMAP_GAP)}
+            height={7 * (HEATMAP_CELL + HEATMAP_GAP)}
+            role="img"
+            aria-label="Focus heatmap"
+          >
+            {heatmap.map((week, x) => week.map((cell, y) => cell && (
+              <rect
+                key={cell.day.getTime()}
+                x={x * (HEATMAP_CELL + HEATMAP_GAP)}
+                y={y * (HEATMAP_CELL + HEATMAP_GAP)}
+                width={HEATMAP_CELL}
+                height={HEATMAP_CELL}
+                rx={2}
+                className={HEATMAP_LEVELS[cell.level]}
+              >
+                <title>{`${format(cell.day, 'EEE, MMM d, yyyy')}: ${formatMinutes(cell.focusMinutes)}`}</title>
+              </rect>
+            )))}
+          </svg>
+        </div>
+        <div className="flex items-center justify-end gap-1 text-xs text-foreground/50 mt-1">
+          <span>Less</span>
+          {HEATMAP_LEVELS.map(level => (
+            <svg key={level} width={HEATMAP_CELL} height={HEATMAP_CELL}>
+              <rect width={HEATMAP_CELL} height={HEATMAP_CELL} rx={2} className={level} />
+            </svg>
+          ))}
+          <span>More</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,21 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, useAnimation } from 'framer-motion';
 import { formatDuration } from 'date-fns';
-import { useTaskStore } from '../store/useTaskStore';
+import { useTaskStore, InterruptionSource } from '../store/useTaskStore';
+import { getBlockingTasks } from '../utils/dependencies';
+import { RECAPTURE_FOCUS_SECONDS, recapturePenalty } from '../utils/recapture';
+import { TimerPhase, timerRate } from '../utils/timer';
+import { formatRate } from '../utils/distortion';
+import { INTERVAL_LABELS, getPomodorosOnDay, isBreak, nextIntervalKind } from '../utils/pomodoro';
+import { INTERRUPTION_SOURCES } from '../utils/interruptions';
+import { useTimerRemaining } from '../hooks/useTimerRemaining';
 
 interface FocusTimerProps {
   taskId?: string;
   onComplete?: () => void;
 }
 
-const TIMER_STATES = {
+const TIMER_STATES: Record<string, TimerPhase> = {
   IDLE: 'idle',
   RUNNING: 'running',
   PAUSED: 'paused',
@@ -16,173 +23,112 @@ const TIMER_STATES = {
   DISTORTED: 'distorted'
 };
 
-type TimerState = typeof TIMER_STATES[keyof typeof TIMER_STATES];
+type TimerState = TimerPhase;
 
 // Characters that will randomly replace digits when time is distorted
 const GLITCH_CHARS = ['?', '!', '@', '#', '$', '%', '&', '*', '>', '<', '∞', '∑', '∆', 'π', 'Ω', '≈'];
 
 export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
-  const [timeRemaining, setTimeRemaining] = useState(25 * 60); // 25 minutes by default
-  const [initialTime, setInitialTime] = useState(25 * 60);
-  const [timerState, setTimerState] = useState<TimerState>(TIMER_STATES.IDLE);
-  const [distortionLevel, setDistortionLevel] = useState(0); // 0-100
-  const lastTickTime = useRef<number | null>(null);
+  const [showBlockedWarning, setShowBlockedWarning] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [intention, setIntention] = useState('');
   const animationControls = useAnimation();
   
   const { 
     tasks,
-    startFocusSession, 
-    endFocusSession, 
-    setDistortionLevel: setGlobalDistortionLevel,
-    setFocusState
+    timer,
+    currentSession,
+    pomodoroSettings,
+    productivityStats,
+    startTimer: startEngine,
+    pauseTimer,
+    resumeTimer,
+    resetTimer,
+    setTimerDuration,
+    toggleTimeDistortion,
+    setTimerDistortionLevel,
+    advanceTimer,
+    skipBreak,
+    updatePomodoroSettings,
+    logInterruption
   } = useTaskStore();
   
-  const task = taskId ? tasks.find(t => t.id === taskId) : undefined;
+  // The countdown lives in the store, so it keeps going while other tabs are open
+  const timerState: TimerState = timer.phase;
+  const distortionLevel = timer.distortionLevel; // 0-100
+  const timeRemaining = useTimerRemaining(50); // Update frequently for smooth distortion
+  const isDistorted = timerState === TIMER_STATES.DISTORTED;
+  const rate = timerRate(timer); // what the session's curve makes of the distortion level
+  const onBreak = isBreak(timer.kind);
+  const isTicking = timerState === TIMER_STATES.RUNNING || timerState === TIMER_STATES.DISTORTED;
   
-  // Reset timer when task changes
+  // Pomodoro cycle
+  const upcomingKind = timerState === TIMER_STATES.COMPLETED ? nextIntervalKind(timer, pomodoroSettings) : timer.kind;
+  const cycleProgress = Math.min(timer.completedWork, pomodoroSettings.longBreakEvery);
+  const pomodorosToday = getPomodorosOnDay(productivityStats);
+  
+  // A running session belongs to the task it was started for
+  const activeTaskId = timerState === TIMER_STATES.IDLE ? taskId : timer.taskId;
+  const task = activeTaskId ? tasks.find(t => t.id === activeTaskId) : undefined;
+  const blockingTasks = task ? getBlockingTasks(task, tasks) : [];
+  
+  // Drop a pending blocked warning when another task is picked
   useEffect(() => {
-    setTimeRemaining(25 * 60);
-    setInitialTime(25 * 60);
-    setTimerState(TIMER_STATES.IDLE);
-    setDistortionLevel(0);
+    setShowBlockedWarning(false);
   }, [taskId]);
   
-  // Timer logic
+  // Let the parent know when the countdown finishes
+  const previousState = useRef(timerState);
   useEffect(() => {
-    let timer: NodeJS.Timeout;
-    
-    if (timerState === TIMER_STATES.RUNNING || timerState === TIMER_STATES.DISTORTED) {
-      timer = setInterval(() => {
-        const now = Date.now();
-        
-        if (lastTickTime.current === null) {
-          lastTickTime.current = now;
-          return;
-        }
-        
-        // Calculate elapsed time since last tick
-        const elapsed = (now - lastTickTime.current) / 1000;
-        lastTickTime.current = now;
-        
-        // Apply time distortion
-        let timeMultiplier = 1;
-        if (timerState === TIMER_STATES.DISTORTED) {
-          // Time can flow faster or slower, even backwards at extreme levels
-          if (distortionLevel < 30) {
-            // Slow down time slightly (0.5x - 1x)
-            timeMultiplier = 0.5 + (distortionLevel / 60);
-          } else if (distortionLevel < 60) {
-            // Accelerate time (1x - 2x)
-            timeMultiplier = 1 + (distortionLevel - 30) / 30;
-          } else if (distortionLevel < 80) {
-            // Dramatic acceleration (2x - 3x)
-            timeMultiplier = 2 + (distortionLevel - 60) / 20;
-          } else if (distortionLevel < 95) {
-            // Extremely fast (3x - 5x)
-            timeMultiplier = 3 + (distortionLevel - 80) / 7.5;
-          } else {
-            // Time flows backward!
-            timeMultiplier = -1;
-          }
-        }
-        
-        // Update time remaining
-        setTimeRemaining(prev => {
-          const newValue = Math.max(0, prev - elapsed * timeMultiplier);
-          
-          if (newValue <= 0 && prev > 0) {
-            // Timer completed
-            setTimerState(TIMER_STATES.COMPLETED);
-            if (onComplete) onComplete();
-            endFocusSession();
-          }
-          
-          return newValue;
-        });
-      }, 50); // Update frequently for smooth distortion
+    if (previousState.current !== TIMER_STATES.COMPLETED && timerState === TIMER_STATES.COMPLETED && onComplete) {
+      onComplete();
     }
-    
-    return () => clearInterval(timer);
-  }, [timerState, distortionLevel, onComplete, endFocusSession]);
-  
-  // Update global distortion level when our distortion level changes
-  useEffect(() => {
-    setGlobalDistortionLevel(distortionLevel);
-  }, [distortionLevel, setGlobalDistortionLevel]);
+    previousState.current = timerState;
+  }, [timerState, onComplete]);
   
-  // Update focus state based on timer state
+  // Wobble while time is distorted, also when coming back to this tab mid-session
   useEffect(() => {
-    if (timerState === TIMER_STATES.RUNNING) {
-      setFocusState('focus');
-    } else if (timerState === TIMER_STATES.DISTORTED) {
-      setFocusState('distorted');
-    } else if (timerState === TIMER_STATES.COMPLETED) {
-      setFocusState('break');
+    if (isDistorted) {
+      animationControls.start({
+        rotate: [0, 5, -5, 3, -3, 0],
+        transition: { duration: 1, repeat: Infinity }
+      });
     } else {
-      setFocusState('idle');
+      animationControls.stop();
+      animationControls.set({ rotate: 0 });
     }
-  }, [timerState, setFocusState]);
+  }, [isDistorted, animationControls]);
   
-  // Start timer function
+  // Start timer function, asking for confirmation when the task is blocked
   const startTimer = () => {
-    setTimerState(TIMER_STATES.RUNNING);
-    lastTickTime.current = Date.now();
-    if (taskId) {
-      startFocusSession(taskId);
+    if (blockingTasks.length > 0) {
+      setShowBlockedWarning(true);
+      return;
     }
+    beginTimer();
+  };
+  
+  const beginTimer = () => {
+    setShowBlockedWarning(false);
+    startEngine(taskId, intention);
+    setIntention('');
     animationControls.start({
       scale: [1, 1.05, 1],
       transition: { duration: 0.5 }
     });
   };
   
-  // Pause timer function
-  const pauseTimer = () => {
-    setTimerState(TIMER_STATES.PAUSED);
-    lastTickTime.current = null;
-  };
-  
-  // Resume timer function
-  const resumeTimer = () => {
-    setTimerState(TIMER_STATES.RUNNING);
-    lastTickTime.current = Date.now();
-  };
-  
-  // Reset timer function
-  const resetTimer = () => {
-    setTimerState(TIMER_STATES.IDLE);
-    setTimeRemaining(initialTime);
-    setDistortionLevel(0);
-    lastTickTime.current = null;
-    endFocusSession();
-  };
-  
-  // Toggle time distortion
-  const toggleTimeDistortion = () => {
-    if (timerState === TIMER_STATES.RUNNING) {
-      setTimerState(TIMER_STATES.DISTORTED);
-      animationControls.start({
-        rotate: [0, 5, -5, 3, -3, 0],
-        transition: { duration: 1, repeat: Infinity }
-      });
-    } else if (timerState === TIMER_STATES.DISTORTED) {
-      setTimerState(TIMER_STATES.RUNNING);
-      animationControls.stop();
-      animationControls.set({ rotate: 0 });
-    }
-  };
-  
   // Increase distortion level
   const increaseDistortion = () => {
     if (timerState === TIMER_STATES.DISTORTED) {
-      setDistortionLevel(prev => Math.min(100, prev + 10));
+      setTimerDistortionLevel(distortionLevel + 10);
     }
   };
   
   // Decrease distortion level
   const decreaseDistortion = () => {
     if (timerState === TIMER_STATES.DISTORTED) {
-      setDistortionLevel(prev => Math.max(0, prev - 10));
+      setTimerDistortionLevel(distortionLevel - 10);
     }
   };
   
@@ -209,6 +155,12 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
     }, { format: ['minutes', 'seconds'] });
   };
   
+  // Minutes fields ignore anything that isn't a positive whole number
+  const updateSetting = (key: 'workMinutes' | 'shortBreakMinutes' | 'longBreakMinutes' | 'longBreakEvery', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (parsed >= 1) updatePomodoroSettings({ [key]: parsed });
+  };
+  
   // Get appropriate button text
   const getStartButtonText = () => {
     switch (timerState) {
@@ -220,7 +172,7 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
       case TIMER_STATES.DISTORTED:
         return 'Pause';
       case TIMER_STATES.COMPLETED:
-        return 'Restart';
+        return 'Done';
       default:
         return 'Start';
     }
@@ -239,15 +191,19 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
     if (timerState === TIMER_STATES.IDLE) {
       return "Ready to focus?";
     } else if (timerState === TIMER_STATES.COMPLETED) {
-      return "Great job! Time for a break.";
+      return onBreak
+        ? "Break's over. The tasks missed you (they didn't)."
+        : `Great job! Time for a ${INTERVAL_LABELS[upcomingKind].toLowerCase()}.`;
+    } else if (onBreak) {
+      return `${INTERVAL_LABELS[timer.kind]}: step away from the screen`;
     } else if (timerState === TIMER_STATES.DISTORTED) {
-      if (distortionLevel < 30) {
+      if (rate >= 0 && rate < 1) {
         return "Time is slowing down...";
-      } else if (distortionLevel < 60) {
+      } else if (rate >= 0 && rate < 2) {
         return "Time is accelerating!";
-      } else if (distortionLevel < 80) {
+      } else if (rate >= 0 && rate < 3) {
         return "Time is WARPING!!";
-      } else if (distortionLevel < 95) {
+      } else if (rate >= 0) {
         return "TIME IS BREAKING!!!";
       } else {
         return "T̸̙͕I̵̖M̶͎E̴̺͐ ̴̲̏I̷͉̐S̵̪̊ ̸̬̄B̷͆ͅŔ̴͕O̵̞͗K̸̥͘E̵͗͜Ǹ̸ͅ";
@@ -257,14 +213,6 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
     }
   };
   
-  // Set timer duration
-  const setTimerDuration = (duration: number) => {
-    if (timerState === TIMER_STATES.IDLE) {
-      setInitialTime(duration);
-      setTimeRemaining(duration);
-    }
-  };
-  
   // Get color based on distortion level
   const getColorStyle = () => {
     if (timerState !== TIMER_STATES.DISTORTED) {
@@ -295,6 +243,22 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
         {getTimerMessage()}
       </motion.h2>
       
+      {/* Pomodoro cycle */}
+      <div className="flex items-center gap-3 text-sm">
+        <span className={`px-2 py-0.5 rounded-full text-white ${onBreak ? 'bg-secondary' : 'bg-primary'}`}>
+          {INTERVAL_LABELS[timer.kind]}
+        </span>
+        <div className="flex gap-1" title={`${cycleProgress} of ${pomodoroSettings.longBreakEvery} until the long break`}>
+          {Array.from({ length: pomodoroSettings.longBreakEvery }, (_, i) => (
+            <span
+              key={i}
+              className={`w-2.5 h-2.5 rounded-full ${i < cycleProgress ? 'bg-primary' : 'bg-foreground/20'}`}
+            />
+          ))}
+        </div>
+        <span className="text-foreground/60">🍅 {pomodorosToday} today</span>
+      </div>
+      
       {/* Time Display */}
       <motion.div 
         className="text-6xl font-mono font-bold py-8"
@@ -307,6 +271,47 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
         {formatTimeRemaining()}
       </motion.div>
       
+      {/* Runaway tasks come back after a short session */}
+      {task?.status === 'running-away' && timerState === TIMER_STATES.IDLE && (
+        <div className="mb-4 w-full p-3 rounded-lg border border-error/40 bg-error/10 text-sm">
+          <p className="font-medium">🏃 &quot;{task.title}&quot; ran away from you.</p>
+          <p className="text-xs mt-1">
+            Focus on it for {RECAPTURE_FOCUS_SECONDS / 60} minutes, distorted ones included, and it will come back
+            (with {recapturePenalty(task)}% procrastination, because it holds grudges).
+          </p>
+          <button
+            onClick={() => setTimerDuration(RECAPTURE_FOCUS_SECONDS)}
+            className="mt-2 px-3 py-1 bg-error text-white rounded text-xs"
+          >
+            Set a {RECAPTURE_FOCUS_SECONDS / 60} minute lure
+          </button>
+        </div>
+      )}
+      
+      {/* Blocked task warning */}
+      {showBlockedWarning && (
+        <div className="mb-4 w-full p-3 rounded-lg border border-accent/40 bg-accent/10 text-sm">
+          <p className="font-medium">
+            ⛓ This task is blocked by {blockingTasks.map(t => `"${t.title}"`).join(', ')}.
+          </p>
+          <p className="text-xs italic mt-1">Working on it now is either visionary or a waste of time.</p>
+          <div className="mt-2 flex gap-2">
+            <button
+              onClick={beginTimer}
+              className="px-3 py-1 bg-accent text-white rounded text-xs"
+            >
+              Start Anyway
+            </button>
+            <button
+              onClick={() => setShowBlockedWarning(false)}
+              className="px-3 py-1 bg-gray-700 text-white rounded text-xs"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      
       {/* Timer Controls */}
       <div className="flex gap-4 mb-4">
         {/* Duration Presets (only visible when idle) */}
@@ -334,29 +339,153 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
         )}
       </div>
       
+      {/* What this session is for */}
+      {timerState === TIMER_STATES.IDLE && (
+        <input
+          type="text"
+          value={intention}
+          onChange={(e) => setIntention(e.target.value)}
+          placeholder="This session I will... (optional)"
+          className="w-full mb-4 px-3 py-2 text-sm bg-background border border-primary/20 rounded-lg"
+          aria-label="Session intention"
+        />
+      )}
+      {currentSession?.intention && (
+        <p className="mb-4 text-sm text-center text-foreground/70">🎯 {currentSession.intention}</p>
+      )}
+      
       {/* Main Timer Controls */}
-      <div className="flex gap-4 mb-4">
-        <button
-          onClick={timerState === TIMER_STATES.RUNNING || timerState === TIMER_STATES.DISTORTED ? pauseTimer 
-                 : timerState === TIMER_STATES.PAUSED ? resumeTimer 
-                 : timerState === TIMER_STATES.COMPLETED ? resetTimer : startTimer}
-          className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary-light transition-colors"
-        >
-          {getStartButtonText()}
-        </button>
-        
-        {(timerState === TIMER_STATES.RUNNING || timerState === TIMER_STATES.DISTORTED) && (
+      {timerState === TIMER_STATES.COMPLETED ? (
+        <div className="flex gap-4 mb-4">
+          <button
+            onClick={advanceTimer}
+            className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary-light transition-colors"
+          >
+            {isBreak(upcomingKind) ? `Start ${INTERVAL_LABELS[upcomingKind]}` : 'Back to Work'}
+          </button>
+          {isBreak(upcomingKind) && (
+            <button
+              onClick={skipBreak}
+              className="px-6 py-2 bg-secondary text-white rounded-lg hover:opacity-90 transition-opacity"
+            >
+              Skip Break
+            </button>
+          )}
           <button
             onClick={resetTimer}
-            className="px-6 py-2 bg-error text-white rounded-lg hover:opacity-90 transition-opacity"
+            className="px-6 py-2 bg-gray-700 text-white rounded-lg hover:opacity-90 transition-opacity"
           >
-            Reset
+            {getStartButtonText()}
           </button>
-        )}
-      </div>
+        </div>
+      ) : (
+        <div className="flex gap-4 mb-4">
+          <button
+            onClick={isTicking ? pauseTimer : timerState === TIMER_STATES.PAUSED ? resumeTimer : startTimer}
+            className="px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary-light transition-colors"
+          >
+            {getStartButtonText()}
+          </button>
+          
+          {isTicking && (
+            <button
+              onClick={onBreak ? skipBreak : resetTimer}
+              className="px-6 py-2 bg-error text-white rounded-lg hover:opacity-90 transition-opacity"
+            >
+              {onBreak ? 'Skip Break' : 'Reset'}
+            </button>
+          )}
+        </div>
+      )}
       
-      {/* Time Distortion Controls */}
-      {(timerState === TIMER_STATES.RUNNING || timerState === TIMER_STATES.DISTORTED) && (
+      {/* One-click interruption log while a session runs */}
+      {currentSession && (
+        <div className="w-full mb-4 text-sm">
+          <p className="text-foreground/60 mb-1 text-center">
+            Interrupted by
+            {currentSession.interruptions.length > 0 && ` (${currentSession.interruptions.length} so far)`}
+          </p>
+          <div className="flex justify-center gap-2">
+            {(Object.keys(INTERRUPTION_SOURCES) as InterruptionSource[]).map(source => (
+              <button
+                key={source}
+                onClick={() => logInterruption(source)}
+                className="px-2 py-1 rounded-lg border border-primary/20 hover:bg-primary/10 transition-colors"
+              >
+                {INTERRUPTION_SOURCES[source].emoji} {INTERRUPTION_SOURCES[source].label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {/* Cycle settings (only while idle) */}
+      {timerState === TIMER_STATES.IDLE && (
+        <div className="w-full mb-4 text-sm">
+          <button
+            onClick={() => setShowSettings(!showSettings)}
+            className="text-foreground/60 hover:text-foreground transition-colors"
+          >
+            {showSettings ? '▾' : '▸'} Cycle settings
+          </button>
+          
+          {showSettings && (
+            <div className="mt-2 grid grid-cols-2 gap-2 p-3 rounded-lg border border-primary/20">
+              <label className="flex items-center justify-between gap-2">
+                Focus (min)
+                <input
+                  type="number"
+                  min={1}
+                  value={pomodoroSettings.workMinutes}
+                  onChange={(e) => updateSetting('workMinutes', e.target.value)}
+                  className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Short break (min)
+                <input
+                  type="number"
+                  min={1}
+                  value={pomodoroSettings.shortBreakMinutes}
+                  onChange={(e) => updateSetting('shortBreakMinutes', e.target.value)}
+                  className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Long break (min)
+                <input
+                  type="number"
+                  min={1}
+                  value={pomodoroSettings.longBreakMinutes}
+                  onChange={(e) => updateSetting('longBreakMinutes', e.target.value)}
+                  className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Long break every
+                <input
+                  type="number"
+                  min={1}
+                  value={pomodoroSettings.longBreakEvery}
+                  onChange={(e) => updateSetting('longBreakEvery', e.target.value)}
+                  className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                />
+              </label>
+              <label className="col-span-2 flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={pomodoroSettings.autoAdvance}
+                  onChange={(e) => updatePomodoroSettings({ autoAdvance: e.target.checked })}
+                />
+                Start the next interval automatically
+              </label>
+            </div>
+          )}
+        </div>
+      )}
+      
+      {/* Time Distortion Controls (breaks are for resting, not for warping) */}
+      {isTicking && !onBreak && (
         <div className="mt-4 w-full">
           <motion.button
             onClick={toggleTimeDistortion}
@@ -396,6 +525,10 @@ export default function FocusTimer({ taskId, onComplete }: FocusTimerProps) {
                 </button>
               </div>
               
+              <p className="text-xs text-center text-foreground/60">
+                Countdown at {formatRate(rate)} on the &quot;{timer.profile.name}&quot; curve
+              </p>
+              
               <motion.p 
                 className="text-sm italic text-center"
                 animate={{
@@ -0,0 +1,45 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { useTaskStore } from '../store/useTaskStore';
+import { useTimerRemaining } from '../hooks/useTimerRemaining';
+import { formatCountdown, isTimerActive } from '../utils/timer';
+import { INTERVAL_LABELS, isBreak } from '../utils/pomodoro';
+
+interface MiniTimerProps {
+  onClick?: () => void;
+}
+
+// Compact countdown for the bottom navigation while a session is active
+export default function MiniTimer({ onClick }: MiniTimerProps) {
+  const timer = useTaskStore(state => state.timer);
+  const taskTitle = useTaskStore(state => state.tasks.find(t => t.id === state.timer.taskId)?.title);
+  const remaining = useTimerRemaining(500);
+
+  if (!isTimerActive(timer)) return null;
+  
+  const onBreak = isBreak(timer.kind);
+
+  return (
+    <motion.button
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      whileHover={{ scale: 1.05 }}
+      onClick={onClick}
+      className={`flex flex-col items-center px-3 py-1 rounded-lg text-sm border ${
+        timer.phase === 'distorted'
+          ? 'border-time-warp text-time-warp animate-pulse'
+          : timer.phase === 'paused'
+            ? 'border-foreground/30 text-foreground/60'
+            : onBreak
+              ? 'border-secondary text-secondary'
+              : 'border-primary text-primary'
+      }`}
+      title={onBreak ? INTERVAL_LABELS[timer.kind] : taskTitle ? `Focusing on "${taskTitle}"` : 'Focus session'}
+    >
+      <span className="font-mono font-bold text-lg">
+        {timer.phase === 'paused' ? '⏸ ' : ''}{formatCountdown(remaining)}
+      </span>
+      <span className="max-w-[8rem] truncate text-xs">{onBreak ? INTERVAL_LABELS[timer.kind] : taskTitle ?? 'Focus'}</span>
+    </motion.button>
+  );
+}
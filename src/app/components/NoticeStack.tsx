@@ -0,0 +1,48 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTaskStore, Notice } from '../store/useTaskStore';
+
+const NOTICE_DURATION = 6000;
+
+function NoticeCard({ notice }: { notice: Notice }) {
+  const { dismissNotice } = useTaskStore();
+  
+  // Auto-dismiss after a few seconds
+  useEffect(() => {
+    const timeout = setTimeout(() => dismissNotice(notice.id), NOTICE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [notice.id, dismissNotice]);
+  
+  return (
+    <motion.div
+      layout
+      initial={{ x: 300, opacity: 0 }}
+      animate={{ x: 0, opacity: 1 }}
+      exit={{ x: 300, opacity: 0 }}
+      className="flex items-start gap-3 bg-background border border-accent/40 rounded-lg shadow-lg p-3 text-sm"
+    >
+      <span className="flex-1">{notice.message}</span>
+      <button
+        onClick={() => dismissNotice(notice.id)}
+        className="text-gray-400 hover:text-gray-500"
+      >
+        <span className="sr-only">Close</span>✕
+      </button>
+    </motion.div>
+  );
+}
+
+// In-app notices raised by the store (unblocked tasks and the like)
+export default function NoticeStack() {
+  const { notices } = useTaskStore();
+  
+  return (
+    <div className="fixed top-24 right-4 z-40 w-80 space-y-2">
+      <AnimatePresence>
+        {notices.map((notice) => (
+          <NoticeCard key={notice.id} notice={notice} />
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useRef, useState } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import { downloadFile } from '../utils/download';
+import {
+  CONDITION_OPERATORS,
+  PERSONALITY_METRICS,
+  PersonalityPack,
+  PersonalityPackError,
+  RANDOM_PERSONALITY,
+  getPersonalityPacks,
+  isBuiltinPersonality,
+  parsePersonalityPack,
+  serializePersonalityPack
+} from '../utils/personalities';
+
+// Pick who comments on the stats, and bring your own personality packs
+export default function PersonalityPanel() {
+  const { personalityPacks, personalityId, selectPersonality, importPersonalityPack, deletePersonalityPack } = useTaskStore();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const packs = getPersonalityPacks(personalityPacks);
+
+  const handleDownload = (pack: PersonalityPack) => {
+    downloadFile(`${pack.id}.json`, serializePersonalityPack(pack), 'application/json');
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const pack = parsePersonalityPack(await file.text());
+      const isUpdate = personalityPacks.some(existing => existing.id === pack.id);
+      const problem = importPersonalityPack(pack);
+      if (problem) {
+        setMessage(problem);
+        return;
+      }
+      setMessage(`${isUpdate ? 'Updated' : 'Imported'} ${pack.emoji} ${pack.name} with ${pack.messages.length} message${pack.messages.length !== 1 ? 's' : ''}.`);
+    } catch (error) {
+      setMessage(error instanceof PersonalityPackError ? error.message : 'Something went wrong reading that file.');
+    }
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 mt-4">
+      <div className="p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20 text-sm">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full flex justify-between items-center font-bold"
+        >
+          <span>🤖 AI personalities</span>
+          <span className="text-foreground/60">{isOpen ? '▾' : '▸'}</span>
+        </button>
+
+        {isOpen && (
+          <div className="mt-3 flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span>Your stats are commented on by</span>
+              <select
+                value={personalityId}
+                onChange={(e) => selectPersonality(e.target.value)}
+                className="px-2 py-1 bg-background border border-primary/20 rounded"
+                aria-label="Personality"
+              >
+                <option value={RANDOM_PERSONALITY}>a surprise guest every time</option>
+                {packs.map(pack => (
+                  <option key={pack.id} value={pack.id}>{pack.emoji} {pack.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <ul className="space-y-1">
+              {packs.map(pack => (
+                <li key={pack.id} className="flex items-center justify-between gap-2">
+                  <span>
+                    {pack.emoji} {pack.name}
+                    <span className="text-foreground/50"> · {pack.messages.length} messages{isBuiltinPersonality(pack.id) && ' · built in'}</span>
+                  </span>
+                  <span className="flex gap-3 text-xs">
+                    <button onClick={() => handleDownload(pack)} className="text-primary hover:underline">
+                      {isBuiltinPersonality(pack.id) ? 'Use as template' : 'Download'}
+                    </button>
+                    {!isBuiltinPersonality(pack.id) && (
+                      <button onClick={() => deletePersonalityPack(pack.id)} className="text-error hover:underline">
+                        Remove
+                      </button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-3 py-1 bg-secondary text-white rounded"
+              >
+                Import a pack
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleFileSelected}
+                className="hidden"
+              />
+              {message && <span className="text-foreground/70">{message}</span>}
+            </div>
+
+            <details className="text-xs text-foreground/70">
+              <summary className="cursor-pointer">Writing your own pack</summary>
+              <div className="mt-2 space-y-2">
+                <p>
+                  Download a built-in pack and change it. Each message has a <code>topic</code>, and the stats show
+                  one message per topic out of those whose <code>when</code> conditions all hold,
+                  e.g. <code>{'{ "metric": "completionRate", "op": "<", "value": 20 }'}</code>. Operators
+                  are {CONDITION_OPERATORS.join(' ')}. A <code>weight</code> makes a message more likely, and recently shown
+                  messages wait their turn.
+                </p>
+                <p>
+                  Texts fill in <code>{'{metric}'}</code> rounded, <code>{'{metric:1}'}</code> with one decimal
+                  and <code>{'{metric|task|tasks}'}</code> as singular or plural. A message whose metric has no data yet is skipped.
+                </p>
+                <table className="w-full">
+                  <tbody>
+                    {Object.entries(PERSONALITY_METRICS).map(([metric, description]) => (
+                      <tr key={metric}>
+                        <td className="pr-2 font-mono">{metric}</td>
+                        <td>{description}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </details>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useEffect } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import { useClock } from '../hooks/useClock';
+
+// How often avoided tasks are re-evaluated while the app is open
+const TICK_INTERVAL = 60 * 1000;
+
+// Drives the store's procrastination engine; renders nothing
+export default function ProcrastinationEngine() {
+  const tickProcrastination = useTaskStore(state => state.tickProcrastination);
+
+  useClock(TICK_INTERVAL, now => tickProcrastination(now));
+
+  useEffect(() => {
+    // Catch up on the time the app was closed
+    tickProcrastination();
+
+    // The clock may still have been throttled in a background tab, so catch up when coming back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') tickProcrastination();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [tickProcrastination]);
+
+  return null;
+}
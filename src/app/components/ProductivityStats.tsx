@@ -1,79 +1,52 @@
-import React, { useEffect, useState } from 'react';
+import React from 'react';
 import { motion } from 'framer-motion';
 import { useTaskStore } from '../store/useTaskStore';
-import { formatDistance, format, addSeconds } from 'date-fns';
-
-// Funny encouraging (or roasting) messages for different stats
-const MESSAGES = {
-  noTasks: [
-    "You haven't created any tasks yet. Is your life really that simple?",
-    "No tasks? Either you're incredibly efficient or masterfully avoiding work.",
-    "The void of tasks stares back at you. It's judging you silently."
-  ],
-  fewTasks: [
-    "A few tasks on your plate. Dipping your toes in productivity, I see.",
-    "Look at you being all 'organized' with these tasks. Adorable.",
-    "You've created some tasks! The bar was on the floor, but you stepped over it."
-  ],
-  manyTasks: [
-    "Wow, that's a lot of tasks. Overcompensating for something?",
-    "Your task list is longer than a CVS receipt. Impressive or concerning?",
-    "With this many tasks, you might need to add 'take a break' to your list."
-  ],
-  noCompleted: [
-    "Zero completed tasks. Even my expectations were low, but wow.",
-    "Have you tried, you know, actually doing the tasks instead of just creating them?",
-    "Achievement Unlocked: Created a to-do list and then completely ignored it."
-  ],
-  someCompleted: [
-    "You've completed a few tasks. Bare minimum achievement unlocked!",
-    "Some tasks completed. Your productivity is technically measurable.",
-    "You're finishing tasks at the pace of a sleepy turtle. But hey, forward motion!"
-  ],
-  highCompletionRate: [
-    "Impressive completion rate! Are you secretly a productivity robot?",
-    "Wow, you're actually getting things done. Who are you and what have you done with the real user?",
-    "You're on fire! Metaphorically. Please don't actually set anything on fire."
-  ],
-  longFocusTime: [
-    "That's a lot of focus time. Remember to blink occasionally.",
-    "You've spent a concerning amount of time focusing. Have you tried touching grass?",
-    "Your chair probably has a permanent impression of your body at this point."
-  ],
-  shortFocusTime: [
-    "Your focus sessions are shorter than my attention span. That's saying something.",
-    "You've barely spent any time focusing. Is that a butterfly? Oh, sorry, got distracted.",
-    "Focus time measured in seconds. At least you're consistent."
-  ],
-  manyRunaways: [
-    "You have an impressive number of tasks running away. They're forming a support group.",
-    "Your procrastination has reached supervillain levels. Tasks are fleeing in terror.",
-    "Task exodus in progress. They're seeking asylum from your procrastination."
-  ]
-};
-
-// Helper to get random message
-const getRandomMessage = (category: keyof typeof MESSAGES) => {
-  const messages = MESSAGES[category];
-  return messages[Math.floor(Math.random() * messages.length)];
-};
+import { formatDistance, format, addSeconds, isToday } from 'date-fns';
+import { NO_PROJECT, getProjectBreakdowns } from '../utils/projects';
+import { focusBreakRatio, getPomodorosOnDay } from '../utils/pomodoro';
+import { warpedSeconds } from '../utils/sessions';
+import { INTERRUPTION_SOURCES, getTopInterruptionSources, interruptionsPerHour } from '../utils/interruptions';
+import { FOCUS_RATING_LABELS, averageFocusRating, intentionSuccessRate } from '../utils/reflection';
+import { ON_TARGET_MARGIN, formatEstimate, formatOverrun, getEstimationReport, isOnTarget } from '../utils/estimates';
+import FocusHistory from './FocusHistory';
+import DeadlineReport from './DeadlineReport';
+import { PERSONALITY_COLORS, getPersonalityMetrics } from '../utils/personalities';
+import { usePersonalityCommentary } from '../hooks/usePersonalityCommentary';
 
 export default function ProductivityStats() {
-  const { tasks, focusSessions, productivityStats } = useTaskStore();
-  const [messages, setMessages] = useState<Record<string, string>>({});
-  const [aiPersonality, setAiPersonality] = useState<number>(0);
+  const { tasks, projects, focusSessions, breakSessions, productivityStats } = useTaskStore();
   
   // Calculate derived stats
   const totalTasks = tasks.length;
   const completedTasks = tasks.filter(t => t.status === 'completed').length;
   const runawayTasks = tasks.filter(t => t.status === 'running-away').length;
   const pendingTasks = tasks.filter(t => t.status === 'pending' || t.status === 'in-progress').length;
+  const recurringCompletions = tasks.filter(t => t.seriesId && t.status === 'completed').length;
   
   const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
   const procrastinationRate = totalTasks > 0 ? (runawayTasks / totalTasks) * 100 : 0;
   
   const totalFocusTime = focusSessions.reduce((total, session) => total + session.duration, 0);
   const averageFocusDuration = focusSessions.length > 0 ? totalFocusTime / focusSessions.length : 0;
+  const totalWarpedTime = focusSessions.reduce((total, session) => total + warpedSeconds(session), 0);
+  const totalBreakTime = breakSessions.reduce((total, session) => total + session.duration, 0);
+  const skippedBreaks = breakSessions.filter(session => session.skipped).length;
+  const breakRatio = focusBreakRatio(focusSessions, breakSessions);
+  const pomodorosToday = getPomodorosOnDay(productivityStats);
+  
+  const { pack: currentAi, lines: commentary } = usePersonalityCommentary(getPersonalityMetrics(tasks, focusSessions, productivityStats));
+  const aiColors = PERSONALITY_COLORS[currentAi.color];
+  
+  const projectBreakdowns = getProjectBreakdowns(projects, tasks, focusSessions);
+  
+  const interruptionRate = interruptionsPerHour(focusSessions);
+  const topInterruptions = getTopInterruptionSources(focusSessions);
+  
+  const reflectedSessions = focusSessions.filter(session => session.reflection).length;
+  const intentionRate = intentionSuccessRate(focusSessions);
+  const averageRating = averageFocusRating(focusSessions);
+  
+  const estimationReport = getEstimationReport(tasks);
   
   // Format focus time as a readable string
   const formatFocusTime = (seconds: number) => {
@@ -86,69 +59,13 @@ export default function ProductivityStats() {
     return `${hours} hour${hours !== 1 ? 's' : ''} ${minutes} minute${minutes !== 1 ? 's' : ''}`;
   };
   
-  // Generate AI personality and messages on mount and when stats change
-  useEffect(() => {
-    const generatePersonality = () => {
-      // 0 = supportive, 1 = sarcastic, 2 = unhinged
-      return Math.floor(Math.random() * 3);
-    };
-    
-    const generateMessages = () => {
-      const newMessages: Record<string, string> = {};
-      
-      // Task count message
-      if (totalTasks === 0) {
-        newMessages.taskCount = getRandomMessage('noTasks');
-      } else if (totalTasks < 5) {
-        newMessages.taskCount = getRandomMessage('fewTasks');
-      } else {
-        newMessages.taskCount = getRandomMessage('manyTasks');
-      }
-      
-      // Completion rate message
-      if (completedTasks === 0) {
-        newMessages.completionRate = getRandomMessage('noCompleted');
-      } else if (completionRate < 50) {
-        newMessages.completionRate = getRandomMessage('someCompleted');
-      } else {
-        newMessages.completionRate = getRandomMessage('highCompletionRate');
-      }
-      
-      // Focus time message
-      if (totalFocusTime > 7200) { // 2 hours
-        newMessages.focusTime = getRandomMessage('longFocusTime');
-      } else {
-        newMessages.focusTime = getRandomMessage('shortFocusTime');
-      }
-      
-      // Runaway tasks message
-      if (runawayTasks > 2) {
-        newMessages.runawayTasks = getRandomMessage('manyRunaways');
-      }
-      
-      return newMessages;
-    };
-    
-    setAiPersonality(generatePersonality());
-    setMessages(generateMessages());
-  }, [totalTasks, completedTasks, completionRate, totalFocusTime, runawayTasks]);
-  
-  // AI personality names and styles
-  const aiPersonalities = [
-    { name: "SupportBot", className: "text-success", emoji: "🙂" },
-    { name: "SarcastiBot", className: "text-accent", emoji: "😏" },
-    { name: "ChaosAnalyzer 9000", className: "text-time-warp", emoji: "🤪" }
-  ];
-  
-  const currentAi = aiPersonalities[aiPersonality];
-  
   return (
     <div className="w-full max-w-4xl mx-auto p-4">
       <div className="mb-6 flex justify-between items-center">
         <h2 className="text-2xl font-bold">Productivity Stats</h2>
         <motion.div 
           whileHover={{ scale: 1.1, rotate: 5 }}
-          className={`flex items-center gap-2 px-3 py-1 rounded-full ${currentAi.className} border border-current`}
+          className={`flex items-center gap-2 px-3 py-1 rounded-full ${aiColors.text} border border-current`}
         >
           <span className="text-xl">{currentAi.emoji}</span>
           <span className="font-bold">{currentAi.name}</span>
@@ -159,34 +76,19 @@ export default function ProductivityStats() {
       <motion.div 
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
-        className={`mb-8 p-4 bg-background/80 backdrop-blur-sm rounded-xl shadow-lg border border-${currentAi.className}/20`}
+        className={`mb-8 p-4 bg-background/80 backdrop-blur-sm rounded-xl shadow-lg border ${aiColors.border}`}
       >
         <div className="flex items-start gap-3">
-          <div className={`text-3xl ${currentAi.className}`}>{currentAi.emoji}</div>
+          <div className={`text-3xl ${aiColors.text}`}>{currentAi.emoji}</div>
           <div>
             <p className="text-sm italic mb-2">
-              {aiPersonality === 0 && "I'm here to help with your productivity journey!"}
-              {aiPersonality === 1 && "Let me analyze your so-called 'productivity'..."}
-              {aiPersonality === 2 && "PROCESSING HUMAN INEFFICIENCY PATTERNS... BEEP BOOP!"}
+              {currentAi.greeting}
             </p>
-            <p className="font-medium">
-              {messages.taskCount}
-            </p>
-            {completedTasks > 0 && (
-              <p className="mt-2">
-                {messages.completionRate}
-              </p>
-            )}
-            {totalFocusTime > 0 && (
-              <p className="mt-2">
-                {messages.focusTime}
-              </p>
-            )}
-            {runawayTasks > 0 && (
-              <p className="mt-2">
-                {messages.runawayTasks}
+            {commentary.map((line, i) => (
+              <p key={line.key} className={i === 0 ? 'font-medium' : 'mt-2'}>
+                {line.text}
               </p>
-            )}
+            ))}
           </div>
         </div>
       </motion.div>
@@ -227,6 +129,10 @@ export default function ProductivityStats() {
         >
           <h3 className="text-sm text-foreground/70 mb-1">Current Streak</h3>
           <p className="text-3xl font-bold">{productivityStats.currentStreak} day{productivityStats.currentStreak !== 1 ? 's' : ''}</p>
+          <p className="text-xs text-foreground/60 mt-1">
+            Best: {productivityStats.longestStreak} day{productivityStats.longestStreak !== 1 ? 's' : ''}
+            {productivityStats.lastActiveDay && !isToday(productivityStats.lastActiveDay) && productivityStats.currentStreak > 0 && ' · today not earned yet'}
+          </p>
         </motion.div>
       </div>
       
@@ -244,10 +150,31 @@ export default function ProductivityStats() {
               <span>Focus Sessions</span>
               <span className="font-medium">{focusSessions.length}</span>
             </div>
-            <div className="flex justify-between text-sm">
+            <div className="flex justify-between text-sm mb-1">
+              <span>Time Warped</span>
+              <span className="font-medium text-time-warp" title="Perceived minus real focus time">
+                {totalWarpedTime < 0 ? '−' : '+'}{formatFocusTime(Math.abs(totalWarpedTime))}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm mb-1">
               <span>Average Session</span>
               <span className="font-medium">{formatFocusTime(averageFocusDuration)}</span>
             </div>
+            <div className="flex justify-between text-sm mb-1">
+              <span>Pomodoros Today</span>
+              <span className="font-medium">🍅 {pomodorosToday}</span>
+            </div>
+            <div className="flex justify-between text-sm mb-1">
+              <span>Break Time</span>
+              <span className="font-medium">
+                {formatFocusTime(totalBreakTime)}
+                {skippedBreaks > 0 && ` (${skippedBreaks} skipped)`}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span>Focus : Break</span>
+              <span className="font-medium">{breakRatio === undefined ? 'No breaks yet' : `${breakRatio.toFixed(1)} : 1`}</span>
+            </div>
           </div>
           
           {/* Funny projection */}
@@ -321,6 +248,14 @@ export default function ProductivityStats() {
                 ></div>
               </div>
             </div>
+            
+            {/* Recurring Completions */}
+            {recurringCompletions > 0 && (
+              <div className="flex justify-between text-sm">
+                <span>Recurring Completions</span>
+                <span className="font-medium">{recurringCompletions}</span>
+              </div>
+            )}
           </div>
           
           {/* Funny stats */}
@@ -355,6 +290,164 @@ export default function ProductivityStats() {
           </div>
         </div>
       </div>
+      
+      {/* What breaks focus */}
+      {topInterruptions.length > 0 && (
+        <div className="mt-6 p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+          <h3 className="font-bold text-lg mb-3">Interruptions</h3>
+          <div className="flex justify-between text-sm mb-3">
+            <span>Per hour of focus</span>
+            <span className="font-medium">{interruptionRate?.toFixed(1) ?? '0'}</span>
+          </div>
+          <div className="space-y-2">
+            {topInterruptions.map(({ source, count }) => (
+              <div key={source}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span>{INTERRUPTION_SOURCES[source].emoji} {INTERRUPTION_SOURCES[source].label}</span>
+                  <span className="font-medium">{count}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-error h-2 rounded-full"
+                    style={{ width: `${(count / topInterruptions[0].count) * 100}%` }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      
+      {/* Intentions and self-reported focus */}
+      {reflectedSessions > 0 && (
+        <div className="mt-6 p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+          <h3 className="font-bold text-lg mb-3">Reflection</h3>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Intentions met</span>
+              <span className="font-medium">
+                {intentionRate !== undefined ? `${Math.round(intentionRate * 100)}%` : 'No intentions set yet'}
+              </span>
+            </div>
+            {intentionRate !== undefined && (
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div className="bg-success h-2 rounded-full" style={{ width: `${intentionRate * 100}%` }}></div>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Average focus</span>
+              <span className="font-medium">
+                {averageRating?.toFixed(1)} / 5 ({FOCUS_RATING_LABELS[Math.round(averageRating ?? 1) - 1]})
+              </span>
+            </div>
+            <div className="flex justify-between text-foreground/60">
+              <span>Sessions reflected on</span>
+              <span>{reflectedSessions} of {focusSessions.length}</span>
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {/* Estimated vs actual time of completed tasks */}
+      {estimationReport && (
+        <div className="mt-6 p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+          <h3 className="font-bold text-lg mb-3">Estimation Accuracy</h3>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Median overrun</span>
+              <span className={`font-medium ${isOnTarget(estimationReport.medianOverrun) ? 'text-success' : 'text-error'}`}>
+                {formatOverrun(estimationReport.medianOverrun)}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span>On target (within {ON_TARGET_MARGIN * 100}%)</span>
+              <span className="font-medium">{Math.round(estimationReport.onTargetRate * 100)}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div className="bg-success h-2 rounded-full" style={{ width: `${estimationReport.onTargetRate * 100}%` }}></div>
+            </div>
+            <div className="flex justify-between text-foreground/60">
+              <span>Completed tasks with an estimate</span>
+              <span>{estimationReport.count}</span>
+            </div>
+          </div>
+          
+          <h4 className="font-medium text-sm mt-4 mb-2">By importance</h4>
+          <div className="space-y-1 text-sm">
+            {estimationReport.byImportance.map((level) => (
+              <div key={level.importance} className="flex justify-between">
+                <span>{'★'.repeat(level.importance)}{'☆'.repeat(5 - level.importance)}</span>
+                <span className="text-foreground/70">
+                  {formatOverrun(level.medianOverrun)} · {Math.round(level.onTargetRate * 100)}% on target · {level.count} task{level.count !== 1 ? 's' : ''}
+                </span>
+              </div>
+            ))}
+          </div>
+          
+          {estimationReport.worstOffenders.length > 0 && (
+            <>
+              <h4 className="font-medium text-sm mt-4 mb-2">Worst offenders</h4>
+              <ul className="space-y-1 text-sm">
+                {estimationReport.worstOffenders.map(({ task, overrun }) => (
+                  <li key={task.id} className="flex justify-between gap-2">
+                    <span className="truncate">{task.title}</span>
+                    <span className="shrink-0 text-error">
+                      {formatEstimate(task.timeSpent)} vs {formatEstimate(task.estimate)} ({formatOverrun(overrun)})
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+      
+      {/* Completions against deadlines, and overdue tasks */}
+      <DeadlineReport />
+      
+      {/* Per-project breakdown */}
+      {projects.length > 0 && (
+        <div className="mt-6 p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+          <h3 className="font-bold text-lg mb-3">Projects</h3>
+          <div className="space-y-4">
+            {projectBreakdowns.map((breakdown) => {
+              const project = projects.find(p => p.id === breakdown.projectId);
+              return (
+                <div key={breakdown.projectId}>
+                  <div className="flex justify-between items-center text-sm mb-1">
+                    <span className="flex items-center gap-2 font-medium">
+                      <span
+                        className="inline-block w-3 h-3 rounded-full"
+                        style={{ backgroundColor: project?.color ?? '#9ca3af' }}
+                      ></span>
+                      {breakdown.projectId === NO_PROJECT ? 'No project' : project?.name}
+                    </span>
+                    <span className="text-foreground/70">
+                      {breakdown.totalTasks} task{breakdown.totalTasks !== 1 ? 's' : ''}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2 mb-1">
+                    <div 
+                      className="bg-success h-2 rounded-full" 
+                      style={{ width: `${breakdown.completionRate}%` }}
+                    ></div>
+                  </div>
+                  <div className="flex justify-between text-xs text-foreground/70">
+                    <span>{Math.round(breakdown.completionRate)}% complete</span>
+                    <span>{formatFocusTime(breakdown.focusTime)} focused</span>
+                    <span className={breakdown.procrastinationIndex > 0 ? 'text-error' : ''}>
+                      {Math.round(breakdown.procrastinationIndex)}% procrastination
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      
+      {/* Focus and completions over time */}
+      {(focusSessions.length > 0 || completedTasks > 0) && <FocusHistory />}
     </div>
   );
 } 
\ No newline at end of file
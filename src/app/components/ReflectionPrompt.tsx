@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTaskStore } from '../store/useTaskStore';
+import { FOCUS_RATING_LABELS } from '../utils/reflection';
+
+// Asks how a session went right after it ends, whichever tab is open
+export default function ReflectionPrompt() {
+  const { tasks, focusSessions, pendingReflectionId, reflectOnSession, dismissReflection } = useTaskStore();
+  const [note, setNote] = useState('');
+  const [rating, setRating] = useState<number | null>(null);
+  const [intentionMet, setIntentionMet] = useState<boolean | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const session = focusSessions.find(s => s.id === pendingReflectionId);
+  const taskTitle = tasks.find(t => t.id === session?.taskId)?.title;
+
+  // Start every prompt from a blank slate
+  useEffect(() => {
+    setNote('');
+    setRating(null);
+    setIntentionMet(null);
+    setError(null);
+  }, [pendingReflectionId]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session || rating === null) return;
+    setError(reflectOnSession(session.id, {
+      note,
+      rating,
+      ...(session.intention && intentionMet !== null && { intentionMet })
+    }) ?? null);
+  };
+
+  return (
+    <AnimatePresence>
+      {session && (
+        <motion.form
+          key={session.id}
+          onSubmit={handleSubmit}
+          initial={{ y: 100, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 100, opacity: 0 }}
+          className="fixed bottom-20 left-1/2 -translate-x-1/2 z-30 w-[calc(100%-2rem)] max-w-md p-4 bg-background border border-primary/40 rounded-xl shadow-lg text-sm space-y-3"
+        >
+          <div className="flex justify-between items-start">
+            <h3 className="font-bold">
+              📓 How did it go{taskTitle ? ` with "${taskTitle}"` : ''}?
+            </h3>
+            <button type="button" onClick={dismissReflection} className="text-gray-400 hover:text-gray-500">
+              <span className="sr-only">Skip</span>✕
+            </button>
+          </div>
+
+          {session.intention && (
+            <div>
+              <p className="text-foreground/70 mb-1">You set out to: &quot;{session.intention}&quot;</p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIntentionMet(true)}
+                  className={`px-3 py-1 rounded border border-success/40 ${intentionMet === true ? 'bg-success text-white' : ''}`}
+                >
+                  Done it
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setIntentionMet(false)}
+                  className={`px-3 py-1 rounded border border-error/40 ${intentionMet === false ? 'bg-error text-white' : ''}`}
+                >
+                  Not quite
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <p className="text-foreground/70 mb-1">Focus</p>
+            <div className="flex gap-1">
+              {FOCUS_RATING_LABELS.map((label, i) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setRating(i + 1)}
+                  title={label}
+                  className={`w-8 h-8 rounded-full border border-primary/40 ${rating !== null && i < rating ? 'bg-primary text-white' : ''}`}
+                >
+                  {i + 1}
+                </button>
+              ))}
+              {rating !== null && <span className="self-center ml-2 text-foreground/60">{FOCUS_RATING_LABELS[rating - 1]}</span>}
+            </div>
+          </div>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="A short note for future you (optional)"
+            rows={2}
+            className="w-full p-2 bg-background border border-primary/20 rounded"
+          />
+
+          {error && <p className="text-error">{error}</p>}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={rating === null}
+              className="px-3 py-1 bg-primary text-white rounded disabled:opacity-50"
+            >
+              Save
+            </button>
+            <button type="button" onClick={dismissReflection} className="px-3 py-1 bg-gray-700 text-white rounded">
+              Skip
+            </button>
+          </div>
+        </motion.form>
+      )}
+    </AnimatePresence>
+  );
+}
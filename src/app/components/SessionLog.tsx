@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { useTaskStore, FocusSession } from '../store/useTaskStore';
+import { formatCountdown } from '../utils/timer';
+import { warpedSeconds } from '../utils/sessions';
+
+const PAGE_SIZE = 10;
+
+// <input type="datetime-local"> works in local time without seconds
+const toInputValue = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const fromInputValue = (value: string): Date | undefined => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+interface SessionDraft {
+  taskId: string;
+  start: string;
+  end: string;
+}
+
+type Editing =
+  | { mode: 'edit'; id: string; draft: SessionDraft }
+  | { mode: 'split'; id: string; at: string };
+
+const formatLength = (seconds: number) =>
+  seconds >= 3600 ? `${Math.floor(seconds / 3600)}h ${formatCountdown(seconds % 3600)}` : formatCountdown(seconds);
+
+// Every finished focus session, with manual fixes for the ones that went wrong
+export default function SessionLog() {
+  const { tasks, focusSessions, addFocusSession, updateFocusSession, splitFocusSession, deleteFocusSession } = useTaskStore();
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [newSession, setNewSession] = useState<SessionDraft | null>(null);
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const sessions = [...focusSessions].sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+  const taskTitle = (taskId: string) => tasks.find(t => t.id === taskId)?.title ?? 'Deleted task';
+
+  // Check a draft and turn it into times, or explain what is wrong with it
+  const parseDraft = (draft: SessionDraft): { start: Date; end: Date } | undefined => {
+    const start = fromInputValue(draft.start);
+    const end = fromInputValue(draft.end);
+    const problem = !draft.taskId
+      ? 'Pick a task. Time spent on nothing is still time spent on nothing.'
+      : !start || !end
+        ? 'Both times are needed.'
+        : end <= start
+          ? 'A session has to end after it starts. Time travel is only available in distorted mode.'
+          : end.getTime() > Date.now()
+            ? "You can't log focus you haven't done yet."
+            : null;
+
+    setError(problem);
+    return problem || !start || !end ? undefined : { start, end };
+  };
+
+  const openNewSession = () => {
+    const end = new Date();
+    setEditing(null);
+    setNewSession({
+      taskId: tasks[0]?.id ?? '',
+      start: toInputValue(new Date(end.getTime() - 25 * 60 * 1000)),
+      end: toInputValue(end)
+    });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newSession) return;
+    const times = parseDraft(newSession);
+    if (!times) return;
+    const problem = addFocusSession(newSession.taskId, times.start, times.end);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setNewSession(null);
+  };
+
+  const startEdit = (session: FocusSession) => {
+    setNewSession(null);
+    setError(null);
+    setEditing({
+      mode: 'edit',
+      id: session.id,
+      draft: {
+        taskId: session.taskId,
+        start: toInputValue(session.startTime),
+        end: toInputValue(session.endTime ?? session.startTime)
+      }
+    });
+  };
+
+  const startSplit = (session: FocusSession) => {
+    const end = session.endTime ?? session.startTime;
+    setNewSession(null);
+    setError(null);
+    setEditing({
+      mode: 'split',
+      id: session.id,
+      at: toInputValue(new Date((session.startTime.getTime() + end.getTime()) / 2))
+    });
+  };
+
+  const handleSave = () => {
+    if (editing?.mode !== 'edit') return;
+    const times = parseDraft(editing.draft);
+    if (!times) return;
+    const problem = updateFocusSession(editing.id, { taskId: editing.draft.taskId, startTime: times.start, endTime: times.end });
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setEditing(null);
+  };
+
+  const handleSplit = (session: FocusSession) => {
+    if (editing?.mode !== 'split') return;
+    const at = fromInputValue(editing.at);
+    const end = session.endTime ?? session.startTime;
+    if (!at || at <= session.startTime || at >= end) {
+      setError('Split somewhere inside the session.');
+      return;
+    }
+    splitFocusSession(session.id, at);
+    setEditing(null);
+    setError(null);
+  };
+
+  const renderDraftFields = (draft: SessionDraft, onChange: (draft: SessionDraft) => void) => (
+    <div className="flex flex-wrap gap-2 items-center">
+      <select
+        value={draft.taskId}
+        onChange={(e) => onChange({ ...draft, taskId: e.target.value })}
+        className="p-1 bg-background border border-primary/20 rounded"
+        aria-label="Task"
+      >
+        {tasks.map(task => (
+          <option key={task.id} value={task.id}>{task.title}</option>
+        ))}
+      </select>
+      <input
+        type="datetime-local"
+        value={draft.start}
+        onChange={(e) => onChange({ ...draft, start: e.target.value })}
+        className="p-1 bg-background border border-primary/20 rounded"
+        aria-label="Start"
+      />
+      <span>to</span>
+      <input
+        type="datetime-local"
+        value={draft.end}
+        onChange={(e) => onChange({ ...draft, end: e.target.value })}
+        className="p-1 bg-background border border-primary/20 rounded"
+        aria-label="End"
+      />
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-4xl mx-auto p-4">
+      <div className="p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-primary/20">
+        <div className="flex justify-between items-center mb-1">
+          <h3 className="font-bold text-lg">Session Log</h3>
+          {tasks.length > 0 && !newSession && (
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={openNewSession}
+              className="px-3 py-1 bg-primary text-white rounded-lg text-sm"
+            >
+              + Log Time
+            </motion.button>
+          )}
+        </div>
+        <p className="text-sm text-foreground/70 mb-4">
+          Forgot to start the timer, or to stop it? Fix it here and your stats follow along.
+        </p>
+
+        {error && <p className="mb-3 text-sm text-error">{error}</p>}
+
+        {newSession && (
+          <form onSubmit={handleAdd} className="mb-4 p-3 bg-primary/10 rounded-lg text-sm space-y-2">
+            {renderDraftFields(newSession, setNewSession)}
+            <div className="flex gap-2">
+              <button type="submit" className="px-3 py-1 bg-primary text-white rounded">Log Session</button>
+              <button
+                type="button"
+                onClick={() => { setNewSession(null); setError(null); }}
+                className="px-3 py-1 bg-gray-700 text-white rounded"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {sessions.length === 0 ? (
+          <p className="text-sm italic text-foreground/60">No sessions yet. The log is as empty as your focus history.</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {sessions.slice(0, visibleCount).map(session => {
+              const end = session.endTime ?? session.startTime;
+              const warped = warpedSeconds(session);
+              return (
+                <li key={session.id} className="p-2 rounded-lg border border-primary/10">
+                  {editing?.id === session.id && editing.mode === 'edit' ? (
+                    <div className="space-y-2">
+                      {renderDraftFields(editing.draft, draft => setEditing({ ...editing, draft }))}
+                      <div className="flex gap-2">
+                        <button onClick={handleSave} className="px-3 py-1 bg-primary text-white rounded">Save</button>
+                        <button onClick={() => { setEditing(null); setError(null); }} className="px-3 py-1 bg-gray-700 text-white rounded">
+                          Cancel
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex flex-wrap justify-between items-center gap-2">
+                      <div>
+                        <p className="font-medium">{taskTitle(session.taskId)}</p>
+                        <p className="text-xs text-foreground/60">
+                          {format(session.startTime, 'MMM d, HH:mm')} – {format(end, 'HH:mm')}
+                          {session.manual && ' · edited by hand'}
+                          {session.interruptions.length > 0 && ` · ${session.interruptions.length} interruption${session.interruptions.length !== 1 ? 's' : ''}`}
+                          {Math.abs(warped) >= 60 && ` · ${warped > 0 ? '+' : '−'}${formatLength(Math.abs(warped))} warped`}
+                          {Math.abs(warped) >= 60 && session.distortionProfile && ` (${session.distortionProfile.name})`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono">{formatLength(session.duration)}</span>
+                        <button onClick={() => startEdit(session)} className="text-primary hover:underline">Edit</button>
+                        <button onClick={() => startSplit(session)} className="text-secondary hover:underline">Split</button>
+                        <button onClick={() => deleteFocusSession(session.id)} className="text-error hover:underline">Delete</button>
+                      </div>
+                    </div>
+                  )}
+
+                  {editing?.id === session.id && editing.mode === 'split' && (
+                    <div className="mt-2 flex flex-wrap gap-2 items-center">
+                      <span>Split at</span>
+                      <input
+                        type="datetime-local"
+                        value={editing.at}
+                        min={toInputValue(session.startTime)}
+                        max={toInputValue(end)}
+                        onChange={(e) => setEditing({ ...editing, at: e.target.value })}
+                        className="p-1 bg-background border border-primary/20 rounded"
+                        aria-label="Split time"
+                      />
+                      <button onClick={() => handleSplit(session)} className="px-3 py-1 bg-secondary text-white rounded">Split</button>
+                      <button onClick={() => { setEditing(null); setError(null); }} className="px-3 py-1 bg-gray-700 text-white rounded">
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {sessions.length > visibleCount && (
+          <button
+            onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+            className="mt-3 text-sm text-primary hover:underline"
+          >
+            Show {Math.min(PAGE_SIZE, sessions.length - visibleCount)} more
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import { useClock } from '../hooks/useClock';
+
+// A streak can only end at midnight, so checking every minute is plenty
+const TICK_INTERVAL = 60 * 1000;
+
+// Keeps streaks current across day boundaries while the app is open; renders nothing
+export default function StreakEngine() {
+  const syncStreaks = useTaskStore(state => state.syncStreaks);
+
+  useClock(TICK_INTERVAL, now => syncStreaks(now));
+
+  // Days may have passed, or stored streaks may predate the history they're computed from
+  useEffect(() => {
+    syncStreaks();
+  }, [syncStreaks]);
+
+  return null;
+}
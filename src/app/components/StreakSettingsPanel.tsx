@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { useTaskStore } from '../store/useTaskStore';
+import { StreakSettings, computeStreaks, getDailyActivity } from '../utils/streaks';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// What counts as an active day, and how forgiving a streak is
+export default function StreakSettingsPanel() {
+  const { tasks, focusSessions, streakSettings, updateStreakSettings } = useTaskStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const thisMonth = format(new Date(), 'yyyy-MM');
+  const freezesThisMonth = isOpen
+    ? computeStreaks(getDailyActivity(tasks, focusSessions), streakSettings).frozenDays.filter(day => day.startsWith(thisMonth)).length
+    : 0;
+
+  const updateCount = (key: keyof Pick<StreakSettings, 'minFocusMinutes' | 'minTasksCompleted' | 'freezesPerMonth'>, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (parsed >= 0) updateStreakSettings({ [key]: parsed });
+  };
+
+  const toggleRestDay = (weekday: number) => {
+    const restDays = streakSettings.restDays.includes(weekday)
+      ? streakSettings.restDays.filter(day => day !== weekday)
+      : [...streakSettings.restDays, weekday].sort();
+    updateStreakSettings({ restDays });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4">
+      <div className="p-4 bg-background/60 backdrop-blur-sm rounded-lg shadow border border-accent/20 text-sm">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="w-full flex justify-between items-center font-bold"
+        >
+          <span>🔥 Streak rules</span>
+          <span className="text-foreground/60">{isOpen ? '▾' : '▸'}</span>
+        </button>
+
+        {isOpen && (
+          <div className="mt-3 flex flex-col gap-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span>A day counts with at least</span>
+              <input
+                type="number"
+                min={0}
+                value={streakSettings.minFocusMinutes}
+                onChange={(e) => updateCount('minFocusMinutes', e.target.value)}
+                className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                aria-label="Minimum focus minutes"
+              />
+              <span>minutes of focus</span>
+              <select
+                value={streakSettings.requireBoth ? 'both' : 'either'}
+                onChange={(e) => updateStreakSettings({ requireBoth: e.target.value === 'both' })}
+                className="px-2 py-1 bg-background border border-primary/20 rounded"
+                aria-label="Combine conditions"
+              >
+                <option value="either">or</option>
+                <option value="both">and</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={streakSettings.minTasksCompleted}
+                onChange={(e) => updateCount('minTasksCompleted', e.target.value)}
+                className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                aria-label="Minimum completed tasks"
+              />
+              <span>completed tasks</span>
+            </div>
+
+            <div>
+              <p className="text-foreground/70 mb-1">Rest days (they don&apos;t count, but don&apos;t break a streak either)</p>
+              <div className="flex gap-1">
+                {WEEKDAYS.map((label, weekday) => (
+                  <button
+                    key={label}
+                    onClick={() => toggleRestDay(weekday)}
+                    className={`px-2 py-1 rounded border border-accent/40 ${streakSettings.restDays.includes(weekday) ? 'bg-accent text-white' : ''}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <span>Streak freezes per month</span>
+              <input
+                type="number"
+                min={0}
+                value={streakSettings.freezesPerMonth}
+                onChange={(e) => updateCount('freezesPerMonth', e.target.value)}
+                className="w-16 px-2 py-1 bg-background border border-primary/20 rounded"
+                aria-label="Streak freezes per month"
+              />
+              {streakSettings.freezesPerMonth > 0 && (
+                <span className="text-foreground/60">
+                  {freezesThisMonth} used this month
+                </span>
+              )}
+            </div>
+
+            <p className="text-xs italic text-foreground/60">
+              Days follow your local calendar. Streaks are recomputed from your whole history, so rule changes apply retroactively.
+              Yes, you can cheat. No, we won&apos;t tell anyone.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import { EMPTY_FILTER, NO_PROJECT, TaskFilter, getAllTags, isFilterActive } from '../utils/projects';
+
+interface TaskFilterBarProps {
+  filter: TaskFilter;
+  onChange: (filter: TaskFilter) => void;
+  shownCount: number;
+}
+
+// Project picker, tag chips and search for the task lists
+export default function TaskFilterBar({ filter, onChange, shownCount }: TaskFilterBarProps) {
+  const { tasks, projects, addProject, deleteProject } = useTaskStore();
+  const [newProject, setNewProject] = useState('');
+  const tags = getAllTags(tasks);
+  const selectedProject = projects.find(p => p.id === filter.projectId);
+
+  const handleAddProject = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newProject.trim()) return;
+    addProject(newProject.trim());
+    setNewProject('');
+  };
+
+  const handleDeleteProject = () => {
+    if (!selectedProject) return;
+    deleteProject(selectedProject.id);
+    onChange({ ...filter, projectId: '' });
+  };
+
+  const toggleTag = (tag: string) => {
+    onChange({
+      ...filter,
+      tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag]
+    });
+  };
+
+  return (
+    <div className="mb-6 p-3 bg-background/80 backdrop-blur-sm rounded-lg border border-primary/20 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={filter.projectId}
+          onChange={(e) => onChange({ ...filter, projectId: e.target.value })}
+          className="p-2 text-sm border border-gray-300 rounded-md"
+          aria-label="Project"
+        >
+          <option value="">All projects</option>
+          {projects.map((project) => (
+            <option key={project.id} value={project.id}>{project.name}</option>
+          ))}
+          <option value={NO_PROJECT}>No project</option>
+        </select>
+
+        <input
+          type="search"
+          value={filter.search}
+          onChange={(e) => onChange({ ...filter, search: e.target.value })}
+          placeholder="Search tasks..."
+          className="flex-1 min-w-[10rem] p-2 text-sm border border-gray-300 rounded-md"
+        />
+
+        {selectedProject && (
+          <button
+            onClick={handleDeleteProject}
+            className="px-2 py-1 text-xs text-error border border-error/40 rounded"
+            title="Tasks in this project are kept, just unassigned"
+          >
+            Delete project
+          </button>
+        )}
+
+        {isFilterActive(filter) && (
+          <button
+            onClick={() => onChange(EMPTY_FILTER)}
+            className="px-2 py-1 text-xs border border-gray-300 rounded"
+          >
+            Clear filters
+          </button>
+        )}
+
+        <form onSubmit={handleAddProject} className="flex gap-2">
+          <input
+            type="text"
+            value={newProject}
+            onChange={(e) => setNewProject(e.target.value)}
+            placeholder="New project..."
+            className="w-36 p-2 text-sm border border-gray-300 rounded-md"
+          />
+          <button type="submit" className="px-3 py-1 text-sm bg-primary text-white rounded-md">
+            +
+          </button>
+        </form>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              className={`px-2 py-0.5 text-xs rounded-full border ${
+                filter.tags.includes(tag) ? 'border-primary bg-primary/20 text-primary' : 'border-gray-300'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {isFilterActive(filter) && (
+        <p className="text-xs text-gray-500">
+          Showing {shownCount} of {tasks.length} tasks. The rest are still there, silently judging you.
+        </p>
+      )}
+    </div>
+  );
+}
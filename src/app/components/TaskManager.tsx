@@ -1,50 +1,314 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTaskStore, Task } from '../store/useTaskStore';
 import { motion } from 'framer-motion';
-import { formatDistance, isPast, isToday, isTomorrow } from 'date-fns';
+import { format, formatDistance, isPast, isToday, isTomorrow } from 'date-fns';
+import { v4 as uuidv4 } from 'uuid';
+import { getSubtaskProgress, progressDampening } from '../utils/subtasks';
+import {
+  RECURRENCE_TYPES,
+  RecurrenceRule,
+  RecurrenceType,
+  describeRecurrence,
+  getSeriesCompletions
+} from '../utils/recurrence';
+import { getBlockingTasks } from '../utils/dependencies';
+import { EMPTY_FILTER, TaskFilter, filterTasks, isFilterActive, parseTags } from '../utils/projects';
+import TaskFilterBar from './TaskFilterBar';
+import { RECAPTURE_FOCUS_SECONDS, getLastEscape, recapturePenalty } from '../utils/recapture';
+import { FOCUS_RATING_LABELS, getTaskJournal } from '../utils/reflection';
+import { formatEstimate, formatOverrun, getOverrun, hasEstimate, isOnTarget } from '../utils/estimates';
 
-export default function TaskManager() {
-  const { tasks, addTask, updateTask, deleteTask, completeTask, makeTaskRunAway } = useTaskStore();
+// Project badge and tag chips; clicking a tag filters by it
+function TaskLabels({ task, onTagClick }: { task: Task; onTagClick: (tag: string) => void }) {
+  const project = useTaskStore(state => state.projects.find(p => p.id === task.projectId));
+  if (!project && task.tags.length === 0) return null;
+  
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+      {project && (
+        <span className="flex items-center gap-1 mr-1 font-medium">
+          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: project.color }}></span>
+          {project.name}
+        </span>
+      )}
+      {task.tags.map((tag) => (
+        <button
+          key={tag}
+          onClick={() => onTagClick(tag)}
+          className="px-1.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20"
+        >
+          #{tag}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Ways to lure a runaway task back, shown on runaway task cards
+function RecaptureControls({ task, onStartFocus }: { task: Task; onStartFocus?: (taskId: string) => void }) {
+  const recaptureTask = useTaskStore(state => state.recaptureTask);
+  const [microStep, setMicroStep] = useState('');
+  
+  const handleCommit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!microStep.trim()) return;
+    recaptureTask(task.id, 'micro-step', microStep.trim());
+    setMicroStep('');
+  };
+  
+  return (
+    <div className="mt-3 space-y-2">
+      <p className="text-xs">
+        Recapture it and it comes back with {recapturePenalty(task)}% procrastination. It remembers.
+      </p>
+      {onStartFocus && (
+        <motion.button
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+          onClick={() => onStartFocus(task.id)}
+          className="px-3 py-1 bg-primary text-white text-xs rounded"
+        >
+          Lure it back with {RECAPTURE_FOCUS_SECONDS / 60} minutes of focus
+        </motion.button>
+      )}
+      <form onSubmit={handleCommit} className="flex gap-2">
+        <input
+          type="text"
+          value={microStep}
+          onChange={(e) => setMicroStep(e.target.value)}
+          placeholder="Or commit to a tiny first step..."
+          className="flex-1 p-1 text-xs border border-gray-300 rounded-md"
+        />
+        <button type="submit" className="px-2 py-1 bg-success text-white text-xs rounded">
+          Commit
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// Checklist with progress bar, shown on pending task cards
+function TaskChecklist({ task }: { task: Task }) {
+  const { addSubtask, toggleSubtask, deleteSubtask } = useTaskStore();
+  const [newStep, setNewStep] = useState('');
+  const progress = getSubtaskProgress(task);
+  
+  const handleAddStep = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newStep.trim()) return;
+    addSubtask(task.id, newStep.trim());
+    setNewStep('');
+  };
+  
+  return (
+    <div className="mt-3">
+      {progress.total > 0 && (
+        <>
+          <div className="flex justify-between text-xs mb-1">
+            <span>Checklist</span>
+            <span>{progress.completed}/{progress.total} steps</span>
+          </div>
+          <div className="w-full h-1 bg-gray-200 rounded-full mb-2">
+            <div 
+              className="h-full bg-success rounded-full transition-all" 
+              style={{ width: `${progress.ratio * 100}%` }}
+            ></div>
+          </div>
+          <ul className="space-y-1 mb-2">
+            {task.subtasks.map((subtask) => (
+              <li key={subtask.id} className="flex items-center gap-2 text-sm group">
+                <input
+                  type="checkbox"
+                  checked={subtask.isCompleted}
+                  onChange={() => toggleSubtask(task.id, subtask.id)}
+                />
+                <span className={subtask.isCompleted ? 'line-through text-gray-500' : ''}>{subtask.title}</span>
+                <button
+                  onClick={() => deleteSubtask(task.id, subtask.id)}
+                  className="ml-auto text-xs text-error opacity-0 group-hover:opacity-100"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      
+      <form onSubmit={handleAddStep} className="flex gap-2">
+        <input
+          type="text"
+          value={newStep}
+          onChange={(e) => setNewStep(e.target.value)}
+          placeholder="Add a step..."
+          className="flex-1 p-1 text-sm border border-gray-300 rounded-md"
+        />
+      </form>
+    </div>
+  );
+}
+
+// Time spent against the estimate; the bar turns red once the estimate is blown
+function EstimateProgress({ task }: { task: Task }) {
+  if (!hasEstimate(task)) return null;
+  const overrun = getOverrun(task);
+  const isOver = overrun > 0;
+  
+  return (
+    <div className="mt-2">
+      <div className="flex justify-between text-xs mb-1">
+        <span>⏱ {formatEstimate(task.timeSpent)} of {formatEstimate(task.estimate)} estimated</span>
+        {isOver && (
+          <span className={isOnTarget(overrun) ? 'text-accent' : 'text-error'}>{formatOverrun(overrun)}</span>
+        )}
+      </div>
+      <div className="w-full h-1 bg-gray-200 rounded-full">
+        <div 
+          className={`h-full rounded-full transition-all ${isOver ? 'bg-error' : 'bg-primary'}`}
+          style={{ width: `${Math.min(1, task.timeSpent / task.estimate) * 100}%` }}
+        ></div>
+      </div>
+    </div>
+  );
+}
+
+// Intentions and reflections of the task's focus sessions, folded away by default
+function TaskJournal({ task }: { task: Task }) {
+  const focusSessions = useTaskStore(state => state.focusSessions);
+  const [isOpen, setIsOpen] = useState(false);
+  const journal = getTaskJournal(focusSessions, task.id);
+  if (journal.length === 0) return null;
+  
+  return (
+    <div className="mt-3 text-xs">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-primary hover:underline">
+        {isOpen ? '▾' : '▸'} 📓 Journal ({journal.length})
+      </button>
+      {isOpen && (
+        <ul className="mt-2 space-y-2">
+          {journal.map((session) => (
+            <li key={session.id} className="p-2 rounded bg-primary/5">
+              <div className="flex justify-between text-gray-500">
+                <span>{format(session.startTime, 'MMM d, HH:mm')}</span>
+                {session.reflection && (
+                  <span title={FOCUS_RATING_LABELS[session.reflection.rating - 1]}>
+                    {'★'.repeat(session.reflection.rating)}{'☆'.repeat(5 - session.reflection.rating)}
+                  </span>
+                )}
+              </div>
+              {session.intention && (
+                <p className="mt-1">
+                  🎯 {session.intention}
+                  {session.reflection?.intentionMet === true && ' ✅'}
+                  {session.reflection?.intentionMet === false && ' ❌'}
+                </p>
+              )}
+              {session.reflection?.note && <p className="mt-1 italic">{session.reflection.note}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  importance: 3,
+  deadline: '',
+  estimate: '', // minutes
+  checklist: '',
+  repeat: '' as RecurrenceType | '',
+  repeatInterval: 2,
+  repeatDay: 1,
+  blockedBy: [] as string[],
+  projectId: '',
+  tags: ''
+};
+
+interface TaskManagerProps {
+  onStartFocus?: (taskId: string) => void;
+  newTaskRequested?: boolean; // set by the "N" shortcut and the command palette
+  onNewTaskOpened?: () => void;
+}
+
+export default function TaskManager({ onStartFocus, newTaskRequested, onNewTaskOpened }: TaskManagerProps) {
+  const { tasks, projects, addTask, updateTask, deleteTask, completeTask, makeTaskRunAway } = useTaskStore();
   const [showForm, setShowForm] = useState(false);
+  const [filter, setFilter] = useState<TaskFilter>(EMPTY_FILTER);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    importance: 3,
-    deadline: ''
-  });
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
   
   // Reset form
   const resetForm = () => {
-    setFormData({
-      title: '',
-      description: '',
-      importance: 3,
-      deadline: ''
-    });
+    setFormData(EMPTY_FORM);
+    setFormError(null);
     setShowForm(false);
     setSelectedTask(null);
   };
   
+  // Build the repeat rule from the form fields
+  const buildRecurrence = (): RecurrenceRule | undefined => {
+    switch (formData.repeat) {
+      case 'daily':
+      case 'weekdays':
+        return { type: formData.repeat };
+      case 'every-n-days':
+      case 'every-n-weeks':
+        return { type: formData.repeat, interval: Math.max(1, formData.repeatInterval) };
+      case 'monthly':
+        return { type: 'monthly', dayOfMonth: Math.min(31, Math.max(1, formData.repeatDay)) };
+      default:
+        return undefined;
+    }
+  };
+  
+  // Estimate in seconds, or none when left blank
+  const parseEstimate = () => {
+    const minutes = parseFloat(formData.estimate);
+    return minutes > 0 ? Math.round(minutes * 60) : undefined;
+  };
+  
   // Add or update task
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     if (selectedTask) {
-      // Update existing task
-      updateTask(selectedTask.id, {
+      // Update existing task, keeping the form open when it is refused
+      const problem = updateTask(selectedTask.id, {
         title: formData.title,
         description: formData.description,
         importance: formData.importance,
-        deadline: formData.deadline ? new Date(formData.deadline) : undefined
+        deadline: formData.deadline ? new Date(formData.deadline) : undefined,
+        estimate: parseEstimate(),
+        recurrence: buildRecurrence(),
+        blockedBy: formData.blockedBy,
+        projectId: formData.projectId || undefined,
+        tags: parseTags(formData.tags)
       });
+      if (problem) {
+        setFormError(`${problem} Even time travel can't fix that.`);
+        return;
+      }
     } else {
-      // Add new task
+      // Add new task, one checklist step per non-empty line
       addTask({
         title: formData.title,
         description: formData.description,
         importance: formData.importance,
-        deadline: formData.deadline ? new Date(formData.deadline) : undefined
+        deadline: formData.deadline ? new Date(formData.deadline) : undefined,
+        estimate: parseEstimate(),
+        recurrence: buildRecurrence(),
+        blockedBy: formData.blockedBy,
+        projectId: formData.projectId || undefined,
+        tags: parseTags(formData.tags),
+        subtasks: formData.checklist
+          .split('\n')
+          .map(line => line.trim())
+          .filter(Boolean)
+          .map(title => ({ id: uuidv4(), title, isCompleted: false }))
       });
     }
     
@@ -58,8 +322,17 @@ export default function TaskManager() {
       title: task.title,
       description: task.description,
       importance: task.importance,
-      deadline: task.deadline ? new Date(task.deadline).toISOString().split('T')[0] : ''
+      deadline: task.deadline ? task.deadline.toISOString().split('T')[0] : '',
+      estimate: task.estimate ? String(Math.round(task.estimate / 60)) : '',
+      checklist: '',
+      repeat: task.recurrence?.type ?? '',
+      repeatInterval: task.recurrence && 'interval' in task.recurrence ? task.recurrence.interval : 2,
+      repeatDay: task.recurrence?.type === 'monthly' ? task.recurrence.dayOfMonth : 1,
+      blockedBy: task.blockedBy,
+      projectId: task.projectId ?? '',
+      tags: task.tags.join(', ')
     });
+    setFormError(null);
     setShowForm(true);
   };
   
@@ -68,7 +341,7 @@ export default function TaskManager() {
     if (!task.deadline) return "No deadline, no pressure, no problem? Ha!";
     
     const now = new Date();
-    const deadline = new Date(task.deadline);
+    const deadline = task.deadline;
     const daysDiff = Math.ceil((deadline.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
     
     if (task.status === 'completed') {
@@ -102,12 +375,13 @@ export default function TaskManager() {
     return `Due in ${daysDiff} days. Let's be honest, you'll start this the night before.`;
   };
   
-  // Increase procrastination level and make task run away if it gets too high
+  // Increase procrastination level and make task run away if it gets too high.
+  // Tasks with most of their checklist done are harder to avoid.
   const handleProcrastinate = (taskId: string) => {
     const task = tasks.find(t => t.id === taskId);
     if (!task) return;
     
-    const newProcrastinationLevel = Math.min(100, task.procrastinationLevel + 20);
+    const newProcrastinationLevel = Math.min(100, task.procrastinationLevel + Math.round(20 * progressDampening(task)));
     
     if (newProcrastinationLevel >= 100) {
       makeTaskRunAway(taskId);
@@ -116,10 +390,57 @@ export default function TaskManager() {
     }
   };
   
-  // Group tasks by status
-  const pendingTasks = tasks.filter(t => t.status === 'pending' || t.status === 'in-progress');
-  const completedTasks = tasks.filter(t => t.status === 'completed');
-  const runawayTasks = tasks.filter(t => t.status === 'running-away');
+  // " 3 days ago" for the latest escape, if it was recorded
+  const escapedAgo = (task: Task) => {
+    const escape = getLastEscape(task);
+    return escape ? ` ${formatDistance(escape.escapedAt, new Date(), { addSuffix: true })}` : '';
+  };
+  
+  // Toggle a prerequisite in the form
+  const toggleFormPrerequisite = (taskId: string) => {
+    setFormData({
+      ...formData,
+      blockedBy: formData.blockedBy.includes(taskId)
+        ? formData.blockedBy.filter(id => id !== taskId)
+        : [...formData.blockedBy, taskId]
+    });
+  };
+  
+  // Tasks that can be picked as prerequisites
+  const prerequisiteCandidates = tasks.filter(t =>
+    t.id !== selectedTask?.id && (t.status !== 'completed' || formData.blockedBy.includes(t.id))
+  );
+  
+  // Open the form, filing new tasks under the project being viewed
+  const handleToggleForm = () => {
+    if (showForm) {
+      resetForm();
+      return;
+    }
+    const projectId = projects.some(p => p.id === filter.projectId) ? filter.projectId : '';
+    setFormData({ ...formData, projectId });
+    setShowForm(true);
+  };
+  
+  // Opened from outside: start a fresh new task instead of toggling
+  useEffect(() => {
+    if (!newTaskRequested) return;
+    setFormData(EMPTY_FORM);
+    setFormError(null);
+    setSelectedTask(null);
+    setShowForm(true);
+    onNewTaskOpened?.();
+  }, [newTaskRequested, onNewTaskOpened]);
+  
+  const filterByTag = (tag: string) => {
+    if (!filter.tags.includes(tag)) setFilter({ ...filter, tags: [...filter.tags, tag] });
+  };
+  
+  // Group the tasks that pass the filter by status
+  const visibleTasks = filterTasks(tasks, filter);
+  const pendingTasks = visibleTasks.filter(t => t.status === 'pending' || t.status === 'in-progress');
+  const completedTasks = visibleTasks.filter(t => t.status === 'completed');
+  const runawayTasks = visibleTasks.filter(t => t.status === 'running-away');
   
   return (
     <div className="w-full max-w-4xl mx-auto p-4">
@@ -128,13 +449,17 @@ export default function TaskManager() {
         <motion.button
           whileHover={{ scale: 1.05 }}
           whileTap={{ scale: 0.95 }}
-          onClick={() => setShowForm(!showForm)}
+          onClick={handleToggleForm}
           className="px-4 py-2 bg-primary text-white rounded-lg"
         >
           {showForm ? 'Cancel' : 'Add Task'}
         </motion.button>
       </div>
       
+      {tasks.length > 0 && (
+        <TaskFilterBar filter={filter} onChange={setFilter} shownCount={visibleTasks.length} />
+      )}
+      
       {/* Task Form */}
       {showForm && (
         <motion.div
@@ -153,6 +478,7 @@ export default function TaskManager() {
                   onChange={(e) => setFormData({ ...formData, title: e.target.value })}
                   className="w-full p-2 border border-gray-300 rounded-md"
                   required
+                  autoFocus
                 />
               </div>
               
@@ -177,6 +503,116 @@ export default function TaskManager() {
                 />
               </div>
               
+              <div>
+                <label className="block mb-2 text-sm font-medium">Repeat</label>
+                <div className="flex gap-2">
+                  <select
+                    value={formData.repeat}
+                    onChange={(e) => setFormData({ ...formData, repeat: e.target.value as RecurrenceType | '' })}
+                    className="flex-1 p-2 border border-gray-300 rounded-md"
+                  >
+                    <option value="">Never (one and done)</option>
+                    {RECURRENCE_TYPES.map(({ type, label }) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                  {(formData.repeat === 'every-n-days' || formData.repeat === 'every-n-weeks') && (
+                    <input
+                      type="number"
+                      min="1"
+                      value={formData.repeatInterval}
+                      onChange={(e) => setFormData({ ...formData, repeatInterval: parseInt(e.target.value) || 1 })}
+                      className="w-20 p-2 border border-gray-300 rounded-md"
+                      aria-label="Repeat interval"
+                    />
+                  )}
+                  {formData.repeat === 'monthly' && (
+                    <input
+                      type="number"
+                      min="1"
+                      max="31"
+                      value={formData.repeatDay}
+                      onChange={(e) => setFormData({ ...formData, repeatDay: parseInt(e.target.value) || 1 })}
+                      className="w-20 p-2 border border-gray-300 rounded-md"
+                      aria-label="Day of month"
+                    />
+                  )}
+                </div>
+              </div>
+              
+              <div>
+                <label className="block mb-2 text-sm font-medium">Project</label>
+                <select
+                  value={formData.projectId}
+                  onChange={(e) => setFormData({ ...formData, projectId: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                >
+                  <option value="">No project</option>
+                  {projects.map((project) => (
+                    <option key={project.id} value={project.id}>{project.name}</option>
+                  ))}
+                </select>
+              </div>
+              
+              <div>
+                <label className="block mb-2 text-sm font-medium">Time Estimate (Optional, minutes)</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.estimate}
+                  onChange={(e) => setFormData({ ...formData, estimate: e.target.value })}
+                  placeholder="Be honest. Then double it."
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              
+              <div>
+                <label className="block mb-2 text-sm font-medium">Tags (Optional, separated by commas or spaces)</label>
+                <input
+                  type="text"
+                  value={formData.tags}
+                  onChange={(e) => setFormData({ ...formData, tags: e.target.value })}
+                  placeholder="client-a, design, someday"
+                  className="w-full p-2 border border-gray-300 rounded-md"
+                />
+              </div>
+              
+              {prerequisiteCandidates.length > 0 && (
+                <div className="md:col-span-2">
+                  <label className="block mb-2 text-sm font-medium">Blocked By (Optional)</label>
+                  <div className="flex flex-wrap gap-2 max-h-28 overflow-y-auto">
+                    {prerequisiteCandidates.map((candidate) => (
+                      <label
+                        key={candidate.id}
+                        className={`flex items-center gap-1 px-2 py-1 text-xs rounded-full border cursor-pointer ${
+                          formData.blockedBy.includes(candidate.id) ? 'border-accent bg-accent/10' : 'border-gray-300'
+                        }`}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={formData.blockedBy.includes(candidate.id)}
+                          onChange={() => toggleFormPrerequisite(candidate.id)}
+                          className="hidden"
+                        />
+                        ⛓ {candidate.title}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {!selectedTask && (
+                <div className="md:col-span-2">
+                  <label className="block mb-2 text-sm font-medium">Checklist (Optional, one step per line)</label>
+                  <textarea
+                    value={formData.checklist}
+                    onChange={(e) => setFormData({ ...formData, checklist: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-md"
+                    rows={3}
+                  />
+                </div>
+              )}
+              
               <div>
                 <label className="block mb-2 text-sm font-medium">
                   Importance Level: {formData.importance}
@@ -197,6 +633,7 @@ export default function TaskManager() {
               </div>
               
               <div className="flex items-end justify-end">
+                {formError && <p className="text-sm text-error mr-4">{formError}</p>}
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
@@ -221,7 +658,9 @@ export default function TaskManager() {
           </h3>
           
           {pendingTasks.length === 0 ? (
-            <p className="text-gray-500 italic">No pending tasks. Suspicious.</p>
+            <p className="text-gray-500 italic">
+              {isFilterActive(filter) ? 'No pending tasks match these filters.' : 'No pending tasks. Suspicious.'}
+            </p>
           ) : (
             <div className="space-y-4">
               {pendingTasks.map((task) => (
@@ -241,8 +680,30 @@ export default function TaskManager() {
                     </span>
                   </div>
                   
+                  <TaskLabels task={task} onTagClick={filterByTag} />
+                  
                   <p className="text-sm mt-2">{task.description}</p>
                   
+                  {getBlockingTasks(task, tasks).length > 0 && (
+                    <p className="text-xs mt-1 text-accent font-medium">
+                      ⛓ Blocked by: {getBlockingTasks(task, tasks).map(t => t.title).join(', ')}
+                    </p>
+                  )}
+                  
+                  {task.escapes.length > 0 && (
+                    <p className="text-xs mt-1 text-error">
+                      🏃 Escaped {task.escapes.length} time{task.escapes.length !== 1 ? 's' : ''}
+                      {getLastEscape(task)?.penalty !== undefined && `, last recaptured with a ${getLastEscape(task)?.penalty}% penalty`}
+                    </p>
+                  )}
+                  
+                  {task.recurrence && (
+                    <p className="text-xs mt-1 text-primary">
+                      🔁 {describeRecurrence(task.recurrence)}
+                      {task.seriesId && ` · ${getSeriesCompletions(tasks, task.seriesId)} done so far`}
+                    </p>
+                  )}
+                  
                   <div className="mt-2 text-sm italic text-gray-500">
                     {task.deadline ? (
                       <p>{getProcrastinationMessage(task)}</p>
@@ -254,7 +715,7 @@ export default function TaskManager() {
                   {task.procrastinationLevel > 0 && (
                     <div className="mt-2">
                       <p className="text-xs text-error">
-                        Procrastination Level: {task.procrastinationLevel}%
+                        Procrastination Level: {Math.round(task.procrastinationLevel)}%
                       </p>
                       <div className="w-full h-1 bg-gray-200 rounded-full mt-1">
                         <div 
@@ -268,6 +729,12 @@ export default function TaskManager() {
                     </div>
                   )}
                   
+                  <EstimateProgress task={task} />
+                  
+                  <TaskChecklist task={task} />
+                  
+                  <TaskJournal task={task} />
+                  
                   <div className="mt-4 flex flex-wrap gap-2">
                     <motion.button
                       whileHover={{ scale: 1.05 }}
@@ -335,11 +802,23 @@ export default function TaskManager() {
                       <h4 className="font-bold">{task.title}</h4>
                       <span className="text-xs text-success">
                         {task.completedAt ? 
-                          `Completed ${formatDistance(new Date(task.completedAt), new Date(), { addSuffix: true })}` : 
+                          `Completed ${formatDistance(task.completedAt, new Date(), { addSuffix: true })}` : 
                           'Completed'}
                       </span>
                     </div>
                     
+                    <TaskLabels task={task} onTagClick={filterByTag} />
+                    
+                    {task.subtasks.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {getSubtaskProgress(task).completed}/{task.subtasks.length} checklist steps done
+                      </p>
+                    )}
+                    
+                    <EstimateProgress task={task} />
+                    
+                    <TaskJournal task={task} />
+                    
                     <div className="mt-2 flex justify-end">
                       <motion.button
                         whileHover={{ scale: 1.05 }}
@@ -380,10 +859,13 @@ export default function TaskManager() {
                     </div>
                     
                     <p className="text-xs italic mt-1">
-                      This task was ignored for so long it became self-aware and ran away.
-                      It might return when you least expect it.
+                      This task was ignored for so long it became self-aware and ran away
+                      {escapedAgo(task)}.
+                      {task.escapes.length > 1 && ` It has done this ${task.escapes.length} times now.`}
                     </p>
                     
+                    <RecaptureControls task={task} onStartFocus={onStartFocus} />
+                    
                     <div className="mt-2 flex justify-end">
                       <motion.button
                         whileHover={{ scale: 1.05 }}
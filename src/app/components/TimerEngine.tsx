@@ -0,0 +1,22 @@
+import { useEffect } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import { useClock } from '../hooks/useClock';
+
+// How often the countdown is checked for completion
+const SYNC_INTERVAL = 250;
+
+// Drives the store's focus timer so it keeps running on every tab; renders nothing
+export default function TimerEngine() {
+  const phase = useTaskStore(state => state.timer.phase);
+  const syncTimer = useTaskStore(state => state.syncTimer);
+
+  // A timer restored after a reload may already be done
+  useEffect(() => {
+    syncTimer();
+  }, [syncTimer]);
+
+  // The shared clock keeps ticking in background tabs
+  useClock(SYNC_INTERVAL, now => syncTimer(now), phase === 'running' || phase === 'distorted');
+
+  return null;
+}
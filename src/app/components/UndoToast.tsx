@@ -0,0 +1,104 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useTaskStore } from '../store/useTaskStore';
+import { isEditingText } from '../utils/keyboard';
+
+const TOAST_DURATION = 5000;
+
+interface Toast {
+  label: string;
+  undone: boolean;
+}
+
+export default function UndoToast() {
+  const { past, future, undo, redo } = useTaskStore();
+  const [toast, setToast] = useState<Toast | null>(null);
+  const latestSeenId = useRef(0);
+  const hideTimeout = useRef<NodeJS.Timeout | null>(null);
+
+  const showToast = useCallback((next: Toast) => {
+    setToast(next);
+    if (hideTimeout.current) clearTimeout(hideTimeout.current);
+    hideTimeout.current = setTimeout(() => setToast(null), TOAST_DURATION);
+  }, []);
+
+  const handleUndo = () => {
+    const { past } = useTaskStore.getState();
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    undo();
+    showToast({ label: entry.label, undone: true });
+  };
+
+  const handleRedo = () => {
+    const { future } = useTaskStore.getState();
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    redo();
+    showToast({ label: entry.label, undone: false });
+  };
+
+  // Announce every new undoable action
+  const latestEntry = past[past.length - 1];
+  useEffect(() => {
+    if (latestEntry && latestEntry.id > latestSeenId.current) {
+      latestSeenId.current = latestEntry.id;
+      showToast({ label: latestEntry.label, undone: false });
+    }
+  }, [latestEntry, showToast]);
+
+  useEffect(() => () => {
+    if (hideTimeout.current) clearTimeout(hideTimeout.current);
+  }, []);
+
+  // Ctrl+Z / Cmd+Z to undo, Ctrl+Shift+Z / Ctrl+Y to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditingText(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <AnimatePresence>
+      {toast && (
+        <motion.div
+          initial={{ y: 40, opacity: 0 }}
+          animate={{ y: 0, opacity: 1 }}
+          exit={{ y: 40, opacity: 0 }}
+          className="fixed bottom-24 left-1/2 transform -translate-x-1/2 z-40 flex items-center gap-4 bg-background/95 backdrop-blur-lg border border-primary/30 rounded-full shadow-lg px-5 py-2 text-sm"
+        >
+          <span>{toast.undone ? `Undid: ${toast.label}` : toast.label}</span>
+          {toast.undone ? (
+            <button
+              onClick={handleRedo}
+              disabled={future.length === 0}
+              className="font-bold text-primary disabled:opacity-50"
+            >
+              Redo
+            </button>
+          ) : (
+            <button
+              onClick={handleUndo}
+              disabled={past.length === 0}
+              className="font-bold text-primary disabled:opacity-50"
+            >
+              Undo
+            </button>
+          )}
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,24 @@
+import { useEffect, useRef, useState } from 'react';
+import { ClockListener, subscribeClock } from '../utils/clock';
+
+/**
+ * Run `listener` on the shared clock every `interval` milliseconds while
+ * `enabled`. The latest listener is always called, so it doesn't need to
+ * be memoized.
+ */
+export const useClock = (interval: number, listener: ClockListener, enabled = true) => {
+  const latestListener = useRef(listener);
+  latestListener.current = listener;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeClock(interval, now => latestListener.current(now));
+  }, [interval, enabled]);
+};
+
+// The current time, refreshed every `interval` milliseconds while `enabled`
+export const useClockNow = (interval: number, enabled = true): Date => {
+  const [now, setNow] = useState(() => new Date());
+  useClock(interval, setNow, enabled);
+  return now;
+};
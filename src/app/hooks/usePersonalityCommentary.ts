@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTaskStore } from '../store/useTaskStore';
+import {
+  BUILTIN_PERSONALITIES,
+  CommentaryLine,
+  PersonalityMetrics,
+  PersonalityPack,
+  choosePersonality,
+  pickCommentary
+} from '../utils/personalities';
+
+/**
+ * The personality commenting on `metrics` and what it says. A new pick is
+ * made when the metrics' values or the personality settings change, not on
+ * every render, and the picked messages are remembered so they don't repeat.
+ */
+export const usePersonalityCommentary = (metrics: PersonalityMetrics) => {
+  const personalityPacks = useTaskStore(state => state.personalityPacks);
+  const personalityId = useTaskStore(state => state.personalityId);
+  const rememberCommentary = useTaskStore(state => state.rememberCommentary);
+  const [commentary, setCommentary] = useState<{ pack: PersonalityPack; lines: CommentaryLine[] }>({
+    pack: BUILTIN_PERSONALITIES[0],
+    lines: []
+  });
+
+  const latestMetrics = useRef(metrics);
+  latestMetrics.current = metrics;
+  const metricsKey = JSON.stringify(metrics);
+
+  useEffect(() => {
+    const pack = choosePersonality(personalityPacks, personalityId);
+    const lines = pickCommentary(pack, latestMetrics.current, useTaskStore.getState().personalityMemory);
+    setCommentary({ pack, lines });
+    rememberCommentary(lines.map(line => line.key));
+  }, [metricsKey, personalityPacks, personalityId, rememberCommentary]);
+
+  return commentary;
+};
@@ -0,0 +1,17 @@
+import { useTaskStore } from '../store/useTaskStore';
+import { getRemaining } from '../utils/timer';
+import { useClockNow } from './useClock';
+
+/**
+ * Seconds left on the store's focus timer, re-rendering every `interval`
+ * milliseconds while the clock is moving.
+ */
+export const useTimerRemaining = (interval = 250): number => {
+  const timer = useTaskStore(state => state.timer);
+  const ticking = timer.phase === 'running' || timer.phase === 'distorted';
+  const now = useClockNow(interval, ticking);
+  if (!ticking) return timer.remaining;
+
+  // The last tick may predate a resume that happened since
+  return getRemaining(timer, new Date(Math.max(now.getTime(), timer.anchoredAt?.getTime() ?? 0)));
+};
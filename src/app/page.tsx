@@ -8,7 +8,23 @@ import TaskManager from "./components/TaskManager";
 import FocusTimer from "./components/FocusTimer";
 import Achievements from "./components/Achievements";
 import ProductivityStats from "./components/ProductivityStats";
+import DataManager from "./components/DataManager";
+import SessionLog from "./components/SessionLog";
+import UndoToast from "./components/UndoToast";
+import NoticeStack from "./components/NoticeStack";
+import ProcrastinationEngine from "./components/ProcrastinationEngine";
+import TimerEngine from "./components/TimerEngine";
+import MiniTimer from "./components/MiniTimer";
+import AlertEngine from "./components/AlertEngine";
+import AlertSettingsPanel from "./components/AlertSettingsPanel";
+import DistortionProfilesPanel from "./components/DistortionProfilesPanel";
+import ReflectionPrompt from "./components/ReflectionPrompt";
+import CommandPalette from "./components/CommandPalette";
+import StreakEngine from "./components/StreakEngine";
+import StreakSettingsPanel from "./components/StreakSettingsPanel";
+import PersonalityPanel from "./components/PersonalityPanel";
 import { useTaskStore } from "./store/useTaskStore";
+import { NO_PROJECT, matchesProject } from "./utils/projects";
 
 // Tabs for different sections of the app
 const TABS = [
@@ -22,7 +38,12 @@ const TABS = [
 export default function Home() {
   const [activeTab, setActiveTab] = useState("tasks");
   const [selectedTaskId, setSelectedTaskId] = useState<string | undefined>(undefined);
-  const { tasks, focusSessions, productivityStats } = useTaskStore();
+  const [landscapeProjectId, setLandscapeProjectId] = useState("");
+  const [newTaskRequested, setNewTaskRequested] = useState(false);
+  const { tasks, projects, focusSessions, productivityStats, hydrationError, acknowledgeHydrationError } = useTaskStore();
+  
+  // The landscape can be restricted to a single project
+  const landscapeTasks = tasks.filter(task => matchesProject(task, landscapeProjectId));
   
   // Handle task selection for focus timer
   const handleTaskSelect = (taskId: string) => {
@@ -30,6 +51,12 @@ export default function Home() {
     setActiveTab("focus");
   };
   
+  // Open the new task form from anywhere
+  const handleNewTask = () => {
+    setNewTaskRequested(true);
+    setActiveTab("tasks");
+  };
+  
   // Floating UI elements
   const FloatingTitle = () => (
     <motion.div
@@ -90,7 +117,7 @@ export default function Home() {
       <ThreeCanvas showStats={false} backgroundColor={activeTab === "landscape" ? "transparent" : "#050505"}>
         {activeTab === "landscape" ? (
           <ProductivityLandscape 
-            tasks={tasks} 
+            tasks={landscapeTasks} 
             stats={productivityStats} 
             onTaskClick={handleTaskSelect}
           />
@@ -113,6 +140,21 @@ export default function Home() {
       {/* Intro Message */}
       <IntroMessage />
       
+      {/* Stored data that failed to load is kept aside, never overwritten */}
+      {hydrationError && (
+        <div className="fixed top-24 left-1/2 transform -translate-x-1/2 z-30 max-w-lg w-full bg-error/90 text-white text-sm rounded-lg p-3 shadow-lg">
+          <p className="font-bold">Your saved data could not be loaded.</p>
+          <p className="mt-1">{hydrationError}</p>
+          <p className="mt-1 italic">Nothing you do now is saved until you continue, so the old data can still be recovered.</p>
+          <button
+            onClick={acknowledgeHydrationError}
+            className="mt-2 px-3 py-1 bg-white/20 hover:bg-white/30 rounded"
+          >
+            Continue and start saving again
+          </button>
+        </div>
+      )}
+      
       {/* Main Content Container */}
       <div className="relative z-10 pt-24 pb-24 min-h-screen">
         <div className="container mx-auto px-4">
@@ -125,17 +167,51 @@ export default function Home() {
               transition={{ duration: 0.3 }}
               className="bg-background/50 backdrop-blur-lg rounded-xl p-4 shadow-lg border border-primary/10"
             >
-              {activeTab === "tasks" && <TaskManager />}
-              {activeTab === "focus" && <FocusTimer taskId={selectedTaskId} />}
-              {activeTab === "stats" && <ProductivityStats />}
+              {activeTab === "tasks" && (
+                <TaskManager
+                  onStartFocus={handleTaskSelect}
+                  newTaskRequested={newTaskRequested}
+                  onNewTaskOpened={() => setNewTaskRequested(false)}
+                />
+              )}
+              {activeTab === "focus" && (
+                <>
+                  <FocusTimer taskId={selectedTaskId} />
+                  <DistortionProfilesPanel />
+                  <AlertSettingsPanel />
+                </>
+              )}
+              {activeTab === "stats" && (
+                <>
+                  <ProductivityStats />
+                  <StreakSettingsPanel />
+                  <PersonalityPanel />
+                  <SessionLog />
+                  <DataManager />
+                </>
+              )}
               {activeTab === "achievements" && <Achievements />}
               {activeTab === "landscape" && (
-                <div className="h-[70vh] flex items-center justify-center">
+                <div className="relative h-[70vh] flex items-center justify-center">
                   <p className="text-center text-foreground/70 max-w-md">
                     Navigate the 3D landscape with your mouse. Interact with tasks by clicking on them.
                     <br /><br />
                     The landscape changes based on your productivity metrics. Complete tasks to grow the Focus Mountain!
                   </p>
+                  {projects.length > 0 && (
+                    <select
+                      value={landscapeProjectId}
+                      onChange={(e) => setLandscapeProjectId(e.target.value)}
+                      className="absolute top-4 right-4 p-2 text-sm bg-background/80 border border-primary/20 rounded-md"
+                      aria-label="Landscape project"
+                    >
+                      <option value="">Whole landscape</option>
+                      {projects.map((project) => (
+                        <option key={project.id} value={project.id}>{project.name}</option>
+                      ))}
+                      <option value={NO_PROJECT}>No project</option>
+                    </select>
+                  )}
                 </div>
               )}
             </motion.div>
@@ -143,6 +219,36 @@ export default function Home() {
         </div>
       </div>
       
+      {/* Undo/redo toast and shortcuts */}
+      <UndoToast />
+      
+      {/* Store notices */}
+      <NoticeStack />
+      
+      {/* Ctrl/Cmd+K, single-key shortcuts and their cheat sheet */}
+      <CommandPalette
+        tabs={TABS}
+        selectedTaskId={selectedTaskId}
+        onSelectTab={setActiveTab}
+        onNewTask={handleNewTask}
+        onFocusTask={handleTaskSelect}
+      />
+      
+      {/* How did that session go? */}
+      <ReflectionPrompt />
+      
+      {/* Avoided tasks escalate on their own */}
+      <ProcrastinationEngine />
+      
+      {/* Focus timer keeps running whichever tab is open */}
+      <TimerEngine />
+      
+      {/* Streaks roll over at midnight */}
+      <StreakEngine />
+      
+      {/* Chimes and desktop notifications, after the timer so stale completions stay silent */}
+      <AlertEngine />
+      
       {/* Bottom Navigation */}
       <div className="fixed bottom-0 left-0 right-0 bg-background/80 backdrop-blur-lg border-t border-primary/20 py-2 px-4 z-20">
         <div className="container mx-auto">
@@ -163,6 +269,9 @@ export default function Home() {
                 <span>{tab.label}</span>
               </motion.button>
             ))}
+            
+            {/* Running session, one tap away from the focus tab */}
+            {activeTab !== "focus" && <MiniTimer onClick={() => setActiveTab("focus")} />}
           </nav>
         </div>
       </div>
@@ -0,0 +1,395 @@
+import type { Task, Project, FocusSession, BreakSession, Achievement, ProductivityStats, TaskStatus, InterruptionSource } from './useTaskStore';
+import { PersistedTaskState, STORE_VERSION, isRecord, reviveDates, runMigrations } from './persistence';
+import { isRecurrenceRule } from '../utils/recurrence';
+import { isValidFocusRating } from '../utils/reflection';
+import { CURVE_LEVELS, DistortionProfile, MAX_RATE, MIN_RATE, isPresetProfile } from '../utils/distortion';
+import { PersonalityPack, PersonalityPackError, isBuiltinPersonality, validatePersonalityPack } from '../utils/personalities';
+
+export const BACKUP_FORMAT = 'timewarp-backup';
+
+export type ImportStrategy = 'replace' | 'merge' | 'newest';
+
+export interface TimeWarpBackup {
+  format: typeof BACKUP_FORMAT;
+  storeVersion: number;
+  exportedAt: Date;
+  data: PersistedTaskState;
+}
+
+export interface BackupIssue {
+  collection: 'tasks' | 'projects' | 'focusSessions' | 'breakSessions' | 'achievements' | 'distortionProfiles' | 'personalityPacks';
+  index: number;
+  id?: string;
+  problems: string[];
+}
+
+export interface ParsedBackup {
+  exportedAt?: Date;
+  data: PersistedTaskState;
+  issues: BackupIssue[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const TASK_STATUSES: TaskStatus[] = ['pending', 'in-progress', 'completed', 'running-away'];
+const BREAK_KINDS: BreakSession['kind'][] = ['short-break', 'long-break'];
+const INTERRUPTION_SOURCES: InterruptionSource[] = ['self', 'colleague', 'meeting', 'notification'];
+
+const isValidDate = (value: unknown): value is Date =>
+  value instanceof Date && !isNaN(value.getTime());
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Record-level validators return a list of human readable problems
+const validateTask = (task: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof task.id !== 'string' || !task.id) problems.push('missing id');
+  if (typeof task.title !== 'string') problems.push('title must be text');
+  if (typeof task.description !== 'string') problems.push('description must be text');
+  if (!TASK_STATUSES.includes(task.status as TaskStatus)) problems.push(`unknown status "${String(task.status)}"`);
+  if (!isValidDate(task.createdAt)) problems.push('createdAt is not a date');
+  if (task.deadline !== undefined && !isValidDate(task.deadline)) problems.push('deadline is not a date');
+  if (task.completedAt !== undefined && !isValidDate(task.completedAt)) problems.push('completedAt is not a date');
+  if (task.lastWorkedOn !== undefined && !isValidDate(task.lastWorkedOn)) problems.push('lastWorkedOn is not a date');
+  if (!isFiniteNumber(task.timeSpent) || task.timeSpent < 0) problems.push('timeSpent must be a positive number');
+  if (task.estimate !== undefined && (!isFiniteNumber(task.estimate) || task.estimate <= 0)) problems.push('estimate must be a positive number');
+  if (!isFiniteNumber(task.importance) || task.importance < 1 || task.importance > 5) problems.push('importance must be between 1 and 5');
+  if (!isFiniteNumber(task.procrastinationLevel) || task.procrastinationLevel < 0 || task.procrastinationLevel > 100) {
+    problems.push('procrastinationLevel must be between 0 and 100');
+  }
+  if (!isRecord(task.position) || !['x', 'y', 'z'].every(axis => isFiniteNumber((task.position as Record<string, unknown>)[axis]))) {
+    problems.push('position must have numeric x, y and z');
+  }
+  if (!Array.isArray(task.subtasks) || !task.subtasks.every(subtask =>
+    isRecord(subtask) && typeof subtask.id === 'string' && typeof subtask.title === 'string' && typeof subtask.isCompleted === 'boolean'
+  )) {
+    problems.push('subtasks must be a list of checklist items');
+  }
+  if (task.recurrence !== undefined && !isRecurrenceRule(task.recurrence)) problems.push('recurrence rule is not valid');
+  if (task.seriesId !== undefined && typeof task.seriesId !== 'string') problems.push('seriesId must be text');
+  if (!Array.isArray(task.blockedBy) || !task.blockedBy.every(id => typeof id === 'string')) {
+    problems.push('blockedBy must be a list of task ids');
+  }
+  if (task.projectId !== undefined && typeof task.projectId !== 'string') problems.push('projectId must be text');
+  if (!Array.isArray(task.tags) || !task.tags.every(tag => typeof tag === 'string')) {
+    problems.push('tags must be a list of text');
+  }
+  if (!Array.isArray(task.escapes) || !task.escapes.every(escape =>
+    isRecord(escape) && isValidDate(escape.escapedAt) && (escape.recapturedAt === undefined || isValidDate(escape.recapturedAt))
+  )) {
+    problems.push('escapes must be a list of escape records');
+  }
+  return problems;
+};
+
+const validateProject = (project: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof project.id !== 'string' || !project.id) problems.push('missing id');
+  if (typeof project.name !== 'string' || !project.name) problems.push('name must be text');
+  if (typeof project.color !== 'string') problems.push('color must be text');
+  if (!isValidDate(project.createdAt)) problems.push('createdAt is not a date');
+  return problems;
+};
+
+const validateFocusSession = (session: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof session.id !== 'string' || !session.id) problems.push('missing id');
+  if (typeof session.taskId !== 'string' || !session.taskId) problems.push('missing taskId');
+  if (!isValidDate(session.startTime)) problems.push('startTime is not a date');
+  if (session.endTime !== undefined && !isValidDate(session.endTime)) problems.push('endTime is not a date');
+  if (!isFiniteNumber(session.duration) || session.duration < 0) problems.push('duration must be a positive number');
+  if (!isFiniteNumber(session.perceivedDuration)) problems.push('perceivedDuration must be a number');
+  if (!isFiniteNumber(session.distortionLevel) || session.distortionLevel < 0 || session.distortionLevel > 100) {
+    problems.push('distortionLevel must be between 0 and 100');
+  }
+  if (!Array.isArray(session.pauses) || !session.pauses.every(pause =>
+    isRecord(pause) && isValidDate(pause.pausedAt) && (pause.resumedAt === undefined || isValidDate(pause.resumedAt))
+  )) {
+    problems.push('pauses must be a list of pause intervals');
+  }
+  if (!Array.isArray(session.segments) || !session.segments.every(segment =>
+    isRecord(segment) && isValidDate(segment.startTime) && isFiniteNumber(segment.rate)
+  )) {
+    problems.push('segments must be a list of time segments');
+  }
+  if (!Array.isArray(session.interruptions) || !session.interruptions.every(interruption =>
+    isRecord(interruption) && isValidDate(interruption.loggedAt) && INTERRUPTION_SOURCES.includes(interruption.source as InterruptionSource)
+  )) {
+    problems.push('interruptions must be a list of logged interruptions');
+  }
+  if (session.intention !== undefined && typeof session.intention !== 'string') problems.push('intention must be text');
+  if (session.reflection !== undefined && !(
+    isRecord(session.reflection) &&
+    typeof session.reflection.note === 'string' &&
+    isValidFocusRating(session.reflection.rating) &&
+    (session.reflection.intentionMet === undefined || typeof session.reflection.intentionMet === 'boolean')
+  )) {
+    problems.push('reflection must have a note and a 1-5 rating');
+  }
+  if (session.distortionProfile !== undefined && !(
+    isRecord(session.distortionProfile) &&
+    typeof session.distortionProfile.id === 'string' &&
+    typeof session.distortionProfile.name === 'string'
+  )) {
+    problems.push('distortionProfile must have an id and a name');
+  }
+  if (session.manual !== undefined && typeof session.manual !== 'boolean') problems.push('manual must be true or false');
+  return problems;
+};
+
+const validateBreakSession = (session: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof session.id !== 'string' || !session.id) problems.push('missing id');
+  if (!BREAK_KINDS.includes(session.kind as BreakSession['kind'])) problems.push(`unknown break kind "${String(session.kind)}"`);
+  if (!isValidDate(session.startTime)) problems.push('startTime is not a date');
+  if (!isValidDate(session.endTime)) problems.push('endTime is not a date');
+  if (!isFiniteNumber(session.duration) || session.duration < 0) problems.push('duration must be a positive number');
+  if (typeof session.skipped !== 'boolean') problems.push('skipped must be true or false');
+  return problems;
+};
+
+const validateAchievement = (achievement: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof achievement.id !== 'string' || !achievement.id) problems.push('missing id');
+  if (typeof achievement.title !== 'string') problems.push('title must be text');
+  if (typeof achievement.description !== 'string') problems.push('description must be text');
+  if (typeof achievement.isUnlocked !== 'boolean') problems.push('isUnlocked must be true or false');
+  if (achievement.unlockedAt !== undefined && !isValidDate(achievement.unlockedAt)) problems.push('unlockedAt is not a date');
+  return problems;
+};
+
+const validateDistortionProfile = (profile: Record<string, unknown>): string[] => {
+  const problems: string[] = [];
+  if (typeof profile.id !== 'string' || !profile.id) problems.push('missing id');
+  else if (isPresetProfile(profile.id)) problems.push('id belongs to a preset');
+  if (typeof profile.name !== 'string') problems.push('name must be text');
+  if (!Array.isArray(profile.rates) || profile.rates.length !== CURVE_LEVELS.length || !profile.rates.every(rate =>
+    isFiniteNumber(rate) && rate >= MIN_RATE && rate <= MAX_RATE
+  )) {
+    problems.push(`rates must be ${CURVE_LEVELS.length} numbers between ${MIN_RATE} and ${MAX_RATE}`);
+  }
+  return problems;
+};
+
+const validatePersonality = (pack: Record<string, unknown>): string[] => {
+  try {
+    validatePersonalityPack(pack);
+  } catch (error) {
+    return [error instanceof PersonalityPackError ? error.message : String(error)];
+  }
+  return isBuiltinPersonality(pack.id as string) ? ['id belongs to a built-in personality'] : [];
+};
+
+// Stats are a summary of the records, so missing or broken fields are rebuilt from them
+const readProductivityStats = (raw: unknown, tasks: Task[], focusSessions: FocusSession[]): ProductivityStats => {
+  const stats = isRecord(raw) ? raw : {};
+  const pomodorosByDay = isRecord(stats.pomodorosByDay) ? stats.pomodorosByDay : {};
+  return {
+    totalTasksCompleted: isFiniteNumber(stats.totalTasksCompleted)
+      ? stats.totalTasksCompleted
+      : tasks.filter(t => t.status === 'completed').length,
+    totalTimeSpent: isFiniteNumber(stats.totalTimeSpent)
+      ? stats.totalTimeSpent
+      : focusSessions.reduce((total, session) => total + session.duration, 0),
+    longestStreak: isFiniteNumber(stats.longestStreak) ? stats.longestStreak : 0,
+    currentStreak: isFiniteNumber(stats.currentStreak) ? stats.currentStreak : 0,
+    lastActiveDay: isValidDate(stats.lastActiveDay) ? stats.lastActiveDay : undefined,
+    pomodorosByDay: Object.fromEntries(Object.entries(pomodorosByDay).filter(([, count]) => isFiniteNumber(count))) as Record<string, number>,
+    achievements: Array.isArray(stats.achievements) ? stats.achievements as Achievement[] : []
+  };
+};
+
+// Keep the records that pass validation and report the ones that don't
+const partitionRecords = <T>(
+  collection: BackupIssue['collection'],
+  records: unknown,
+  validate: (record: Record<string, unknown>) => string[],
+  issues: BackupIssue[]
+): T[] => {
+  if (!Array.isArray(records)) {
+    throw new BackupError(`"${collection}" is missing or is not a list`);
+  }
+
+  return records.filter((record, index) => {
+    if (!isRecord(record)) {
+      issues.push({ collection, index, problems: ['not an object'] });
+      return false;
+    }
+
+    const problems = validate(record);
+    if (problems.length > 0) {
+      issues.push({ collection, index, id: typeof record.id === 'string' ? record.id : undefined, problems });
+      return false;
+    }
+    return true;
+  }) as T[];
+};
+
+export const createBackup = (state: PersistedTaskState): TimeWarpBackup => ({
+  format: BACKUP_FORMAT,
+  storeVersion: STORE_VERSION,
+  exportedAt: new Date(),
+  data: {
+    tasks: state.tasks,
+    projects: state.projects,
+    focusSessions: state.focusSessions,
+    breakSessions: state.breakSessions,
+    productivityStats: state.productivityStats,
+    achievements: state.achievements,
+    distortionProfiles: state.distortionProfiles ?? [],
+    personalityPacks: state.personalityPacks ?? []
+  }
+});
+
+export const serializeBackup = (backup: TimeWarpBackup): string =>
+  JSON.stringify(backup, null, 2);
+
+/**
+ * Parse and validate a backup file. Throws a BackupError when the file as a
+ * whole is unusable; individual bad records are dropped and reported.
+ */
+export const parseBackup = (text: string): ParsedBackup => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text, reviveDates);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) {
+    throw new BackupError('The file is not a TimeWarp backup.');
+  }
+  if (!isFiniteNumber(raw.storeVersion)) {
+    throw new BackupError('The backup does not say which version wrote it.');
+  }
+
+  let migrated: PersistedTaskState;
+  try {
+    migrated = runMigrations(raw.data, raw.storeVersion);
+  } catch (error) {
+    throw new BackupError(`The backup could not be upgraded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const issues: BackupIssue[] = [];
+  const tasks = partitionRecords<Task>('tasks', migrated.tasks, validateTask, issues);
+  const focusSessions = partitionRecords<FocusSession>('focusSessions', migrated.focusSessions, validateFocusSession, issues);
+  const data: PersistedTaskState = {
+    tasks,
+    projects: partitionRecords<Project>('projects', migrated.projects, validateProject, issues),
+    focusSessions,
+    breakSessions: partitionRecords<BreakSession>('breakSessions', migrated.breakSessions, validateBreakSession, issues),
+    achievements: partitionRecords<Achievement>('achievements', migrated.achievements, validateAchievement, issues),
+    productivityStats: readProductivityStats(migrated.productivityStats, tasks, focusSessions),
+    // Backups made before these were included have neither
+    ...(migrated.distortionProfiles !== undefined && {
+      distortionProfiles: partitionRecords<DistortionProfile>('distortionProfiles', migrated.distortionProfiles, validateDistortionProfile, issues)
+    }),
+    ...(migrated.personalityPacks !== undefined && {
+      personalityPacks: partitionRecords<PersonalityPack>('personalityPacks', migrated.personalityPacks, validatePersonality, issues)
+    })
+  };
+
+  return {
+    exportedAt: isValidDate(raw.exportedAt) ? raw.exportedAt : undefined,
+    data,
+    issues
+  };
+};
+
+// Most recent moment a record was touched, used by the "newest" strategy
+const taskTimestamp = (task: Task) =>
+  Math.max(task.createdAt.getTime(), task.lastWorkedOn?.getTime() ?? 0, task.completedAt?.getTime() ?? 0);
+
+const sessionTimestamp = (session: FocusSession) =>
+  (session.endTime ?? session.startTime).getTime();
+
+const mergeById = <T extends { id: string }>(
+  current: T[],
+  incoming: T[],
+  pick: (existing: T, candidate: T) => T
+): T[] => {
+  const merged = new Map(current.map(record => [record.id, record]));
+  incoming.forEach(record => {
+    const existing = merged.get(record.id);
+    merged.set(record.id, existing ? pick(existing, record) : record);
+  });
+  return Array.from(merged.values());
+};
+
+// Both sides may have counted pomodoros on the same day, keep the higher count
+const mergeDailyCounts = (current: Record<string, number>, incoming: Record<string, number>) => {
+  const merged = { ...current };
+  Object.entries(incoming).forEach(([day, count]) => {
+    merged[day] = Math.max(merged[day] ?? 0, count);
+  });
+  return merged;
+};
+
+// An achievement stays unlocked if either side unlocked it, at the earliest time
+const mergeAchievement = (existing: Achievement, candidate: Achievement): Achievement => {
+  if (!candidate.isUnlocked) return existing;
+  if (!existing.isUnlocked) return candidate;
+  const existingTime = existing.unlockedAt?.getTime() ?? Infinity;
+  const candidateTime = candidate.unlockedAt?.getTime() ?? Infinity;
+  return candidateTime < existingTime ? candidate : existing;
+};
+
+/**
+ * Combine imported data with the current state.
+ *
+ * - replace: the backup wins wholesale
+ * - merge: records are added by id, existing records are left untouched
+ * - newest: on id clashes the most recently touched record wins
+ *
+ * Totals are recomputed from the merged records for the last two strategies.
+ * Distortion curves and personality packs are kept as they are when the
+ * backup has none.
+ */
+export const applyBackup = (
+  current: PersistedTaskState,
+  incoming: PersistedTaskState,
+  strategy: ImportStrategy
+): PersistedTaskState => {
+  if (strategy === 'replace') {
+    return {
+      ...incoming,
+      distortionProfiles: incoming.distortionProfiles ?? current.distortionProfiles ?? [],
+      personalityPacks: incoming.personalityPacks ?? current.personalityPacks ?? []
+    };
+  }
+
+  const keepExisting = <T>(existing: T) => existing;
+  const tasks = mergeById(current.tasks, incoming.tasks, strategy === 'newest'
+    ? (existing, candidate) => taskTimestamp(candidate) > taskTimestamp(existing) ? candidate : existing
+    : keepExisting);
+  const focusSessions = mergeById(current.focusSessions, incoming.focusSessions, strategy === 'newest'
+    ? (existing, candidate) => sessionTimestamp(candidate) > sessionTimestamp(existing) ? candidate : existing
+    : keepExisting);
+  const breakSessions = mergeById(current.breakSessions, incoming.breakSessions, keepExisting);
+  const projects = mergeById(current.projects, incoming.projects, keepExisting);
+  const achievements = mergeById(current.achievements, incoming.achievements, mergeAchievement);
+  const distortionProfiles = mergeById(current.distortionProfiles ?? [], incoming.distortionProfiles ?? [], keepExisting);
+  const personalityPacks = mergeById(current.personalityPacks ?? [], incoming.personalityPacks ?? [], keepExisting);
+
+  return {
+    tasks,
+    projects,
+    focusSessions,
+    breakSessions,
+    achievements,
+    distortionProfiles,
+    personalityPacks,
+    productivityStats: {
+      ...current.productivityStats,
+      totalTasksCompleted: tasks.filter(t => t.status === 'completed').length,
+      totalTimeSpent: focusSessions.reduce((total, session) => total + session.duration, 0),
+      pomodorosByDay: mergeDailyCounts(current.productivityStats.pomodorosByDay, incoming.productivityStats.pomodorosByDay)
+    }
+  };
+};
@@ -0,0 +1,168 @@
+import type { PersistedTaskState } from './persistence';
+
+// How many steps can be undone
+export const HISTORY_LIMIT = 50;
+
+// The parts of the store an undoable action may touch besides
+// `productivityStats`, each a list of records with an id
+const COLLECTION_KEYS = [
+  'tasks', 'projects', 'focusSessions', 'breakSessions', 'achievements', 'distortionProfiles', 'personalityPacks'
+] as const;
+
+type CollectionKey = typeof COLLECTION_KEYS[number];
+type Fields = Record<string, unknown>;
+
+// Running totals that also grow outside undoable actions (e.g. when a focus
+// session ends), so undo takes back the action's contribution instead of
+// restoring the old total
+const ACCUMULATED_FIELDS = new Set(['timeSpent', 'totalTimeSpent', 'totalTasksCompleted']);
+
+// One record an action added, removed or edited
+interface RecordChange {
+  id: string;
+  before?: Fields; // undefined when the action added the record
+  after?: Fields; // undefined when the action removed the record
+  beforeIndex: number; // where the record sat, to put it back in its place
+  afterIndex: number;
+}
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  records: Partial<Record<CollectionKey, RecordChange[]>>;
+  stats?: { before: Fields; after: Fields }; // only the fields the action changed
+}
+
+let nextEntryId = 1;
+
+const diffCollection = (before: { id: string }[], after: { id: string }[]): RecordChange[] => {
+  const changes: RecordChange[] = [];
+  const afterIndex = new Map(after.map((record, index) => [record.id, index]));
+  const beforeIds = new Set(before.map(record => record.id));
+
+  before.forEach((record, index) => {
+    const newIndex = afterIndex.get(record.id);
+    const newRecord = newIndex === undefined ? undefined : after[newIndex];
+    if (newRecord === record) return;
+    changes.push({
+      id: record.id,
+      before: record as unknown as Fields,
+      after: newRecord as unknown as Fields | undefined,
+      beforeIndex: index,
+      afterIndex: newIndex ?? -1
+    });
+  });
+  after.forEach((record, index) => {
+    if (beforeIds.has(record.id)) return;
+    changes.push({ id: record.id, after: record as unknown as Fields, beforeIndex: -1, afterIndex: index });
+  });
+
+  return changes;
+};
+
+const diffFields = (before: Fields, after: Fields) => {
+  const changed = { before: {} as Fields, after: {} as Fields };
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(field => {
+    if (before[field] === after[field]) return;
+    changed.before[field] = before[field];
+    changed.after[field] = after[field];
+  });
+  return changed;
+};
+
+// Turn the fields of `current` that went from `from` to `to` back into `from`
+const revertFields = (current: Fields, from: Fields, to: Fields): Fields => {
+  const reverted = { ...current };
+  new Set([...Object.keys(from), ...Object.keys(to)]).forEach(field => {
+    if (from[field] === to[field]) return;
+    const value = current[field];
+    if (ACCUMULATED_FIELDS.has(field) && typeof value === 'number'
+      && typeof from[field] === 'number' && typeof to[field] === 'number') {
+      reverted[field] = Math.max(0, value - ((to[field] as number) - (from[field] as number)));
+    } else if (field in from) {
+      reverted[field] = from[field];
+    } else {
+      delete reverted[field];
+    }
+  });
+  return reverted;
+};
+
+/**
+ * Build a history entry from the state before and after an action. Changes
+ * are recorded per record and per field, so undoing the action leaves alone
+ * whatever else changed since, e.g. time a focus session added to the same
+ * task or a procrastination level that kept ticking.
+ * Returns undefined when nothing changed.
+ */
+export const createHistoryEntry = (
+  label: string,
+  before: PersistedTaskState,
+  after: PersistedTaskState
+): HistoryEntry | undefined => {
+  const records: HistoryEntry['records'] = {};
+  COLLECTION_KEYS.forEach(key => {
+    if (before[key] === after[key]) return;
+    const changes = diffCollection(before[key] ?? [], after[key] ?? []);
+    if (changes.length > 0) records[key] = changes;
+  });
+
+  let stats: HistoryEntry['stats'];
+  if (before.productivityStats !== after.productivityStats) {
+    const changed = diffFields(before.productivityStats as unknown as Fields, after.productivityStats as unknown as Fields);
+    if (Object.keys(changed.before).length > 0) stats = changed;
+  }
+
+  if (Object.keys(records).length === 0 && !stats) return undefined;
+  return { id: nextEntryId++, label, records, stats };
+};
+
+// Take back the entry's changes from the current state, returning the keys that changed
+export const applyHistoryEntry = (
+  entry: HistoryEntry,
+  current: PersistedTaskState
+): Partial<PersistedTaskState> => {
+  const result: Partial<PersistedTaskState> = {};
+
+  (Object.keys(entry.records) as CollectionKey[]).forEach(key => {
+    const records = [...current[key] ?? []] as unknown as (Fields & { id: string })[];
+    entry.records[key]!.forEach(change => {
+      const index = records.findIndex(record => record.id === change.id);
+      if (!change.before) {
+        if (index !== -1) records.splice(index, 1);
+      } else if (index === -1) {
+        // Only bring back a record the action removed, not one deleted since
+        if (!change.after) records.splice(Math.min(change.beforeIndex, records.length), 0, change.before as Fields & { id: string });
+      } else if (change.after) {
+        records[index] = revertFields(records[index], change.before, change.after) as Fields & { id: string };
+      }
+    });
+    (result as Record<string, unknown>)[key] = records;
+  });
+
+  if (entry.stats) {
+    result.productivityStats = revertFields(
+      current.productivityStats as unknown as Fields,
+      entry.stats.before,
+      entry.stats.after
+    ) as unknown as PersistedTaskState['productivityStats'];
+  }
+
+  return result;
+};
+
+// The entry that redoes what applying `entry` undid
+export const invertHistoryEntry = (entry: HistoryEntry): HistoryEntry => {
+  const records: HistoryEntry['records'] = {};
+  (Object.keys(entry.records) as CollectionKey[]).forEach(key => {
+    records[key] = entry.records[key]!.map(change => ({
+      id: change.id,
+      before: change.after,
+      after: change.before,
+      beforeIndex: change.afterIndex,
+      afterIndex: change.beforeIndex
+    }));
+  });
+  const stats = entry.stats && { before: entry.stats.after, after: entry.stats.before };
+  return { id: nextEntryId++, label: entry.label, records, stats };
+};
@@ -0,0 +1,308 @@
+import { createJSONStorage, PersistStorage } from 'zustand/middleware';
+import type { Task, Project, FocusSession, BreakSession, ProductivityStats, Achievement } from './useTaskStore';
+import type { FocusTimerState } from '../utils/timer';
+import type { PomodoroSettings } from '../utils/pomodoro';
+import type { AlertSettings } from '../utils/alerts';
+import type { StreakSettings } from '../utils/streaks';
+import type { DistortionProfile } from '../utils/distortion';
+import type { PersonalityPack } from '../utils/personalities';
+
+// The slice of the store that is written to localStorage
+export interface PersistedTaskState {
+  tasks: Task[];
+  projects: Project[];
+  focusSessions: FocusSession[];
+  breakSessions: BreakSession[];
+  productivityStats: ProductivityStats;
+  achievements: Achievement[];
+  distortionProfiles?: DistortionProfile[];
+  personalityPacks?: PersonalityPack[];
+  
+  // Local bookkeeping, left out of backups and undo history
+  lastProcrastinationCheck?: Date;
+  currentSession?: FocusSession; // so a running session survives a reload
+  timer?: FocusTimerState;
+  pomodoroSettings?: PomodoroSettings;
+  alertSettings?: AlertSettings;
+  streakSettings?: StreakSettings;
+  distortionProfileId?: string;
+  personalityId?: string;
+  personalityMemory?: string[];
+}
+
+export class PersistenceError extends Error {
+  constructor(message: string, public readonly quarantineKey?: string) {
+    super(message);
+    this.name = 'PersistenceError';
+  }
+}
+
+// Every key that holds a Date anywhere in the persisted state
+const DATE_KEYS = new Set([
+  'createdAt',
+  'deadline',
+  'completedAt',
+  'lastWorkedOn',
+  'startTime',
+  'endTime',
+  'unlockedAt',
+  'lastActiveDay',
+  'lastProcrastinationCheck',
+  'escapedAt',
+  'recapturedAt',
+  'anchoredAt',
+  'pausedAt',
+  'resumedAt',
+  'loggedAt',
+  'startedAt'
+]);
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+// JSON.parse reviver that turns serialized dates back into Date objects
+export const reviveDates = (key: string, value: unknown): unknown => {
+  if (DATE_KEYS.has(key) && typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+// Coerce whatever a legacy payload stored into a Date (or undefined)
+export const toDate = (value: unknown): Date | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Ordered list of migrations. The migration at index N upgrades a payload
+ * from version N to version N + 1, so appending a migration bumps the
+ * store version. Never reorder or edit a migration once it has shipped.
+ */
+const MIGRATIONS: Array<(state: Record<string, unknown>) => Record<string, unknown>> = [
+  // 0 -> 1: unversioned payloads stored dates as strings and could miss fields
+  (state) => {
+    const tasks = Array.isArray(state.tasks) ? state.tasks.filter(isRecord) : [];
+    const focusSessions = Array.isArray(state.focusSessions) ? state.focusSessions.filter(isRecord) : [];
+    const achievements = Array.isArray(state.achievements) ? state.achievements.filter(isRecord) : [];
+    const stats = isRecord(state.productivityStats) ? state.productivityStats : {};
+
+    return {
+      ...state,
+      tasks: tasks.map(task => ({
+        ...task,
+        status: task.status ?? 'pending',
+        createdAt: toDate(task.createdAt) ?? new Date(),
+        deadline: toDate(task.deadline),
+        completedAt: toDate(task.completedAt),
+        lastWorkedOn: toDate(task.lastWorkedOn),
+        timeSpent: Number(task.timeSpent) || 0,
+        importance: Number(task.importance) || 3,
+        procrastinationLevel: Number(task.procrastinationLevel) || 0,
+        position: isRecord(task.position) ? task.position : { x: 0, y: 0, z: 0 }
+      })),
+      focusSessions: focusSessions.map(session => ({
+        ...session,
+        startTime: toDate(session.startTime) ?? new Date(0),
+        endTime: toDate(session.endTime),
+        duration: Number(session.duration) || 0,
+        distortionLevel: Number(session.distortionLevel) || 0
+      })),
+      achievements: achievements.map(achievement => ({
+        ...achievement,
+        unlockedAt: toDate(achievement.unlockedAt)
+      })),
+      productivityStats: {
+        totalTasksCompleted: Number(stats.totalTasksCompleted) || 0,
+        totalTimeSpent: Number(stats.totalTimeSpent) || 0,
+        longestStreak: Number(stats.longestStreak) || 0,
+        currentStreak: Number(stats.currentStreak) || 0,
+        lastActiveDay: toDate(stats.lastActiveDay),
+        achievements: Array.isArray(stats.achievements) ? stats.achievements : []
+      }
+    };
+  },
+  // 1 -> 2: tasks gained a checklist of subtasks
+  (state) => ({
+    ...state,
+    tasks: (state.tasks as Record<string, unknown>[]).map(task => ({
+      ...task,
+      subtasks: Array.isArray(task.subtasks) ? task.subtasks : []
+    }))
+  }),
+  // 2 -> 3: tasks can be blocked by other tasks
+  (state) => ({
+    ...state,
+    tasks: (state.tasks as Record<string, unknown>[]).map(task => ({
+      ...task,
+      blockedBy: Array.isArray(task.blockedBy) ? task.blockedBy : []
+    }))
+  }),
+  // 3 -> 4: tasks can be grouped into projects and tagged
+  (state) => ({
+    ...state,
+    projects: Array.isArray(state.projects) ? state.projects : [],
+    tasks: (state.tasks as Record<string, unknown>[]).map(task => ({
+      ...task,
+      tags: Array.isArray(task.tags) ? task.tags : []
+    }))
+  }),
+  // 4 -> 5: tasks keep a history of running away and being recaptured
+  (state) => ({
+    ...state,
+    tasks: (state.tasks as Record<string, unknown>[]).map(task => ({
+      ...task,
+      escapes: Array.isArray(task.escapes)
+        ? task.escapes
+        : task.status === 'running-away'
+          ? [{ escapedAt: task.lastWorkedOn ?? task.createdAt }]
+          : []
+    }))
+  }),
+  // 5 -> 6: breaks are logged apart from focus sessions, pomodoros are counted per day
+  (state) => {
+    const stats = isRecord(state.productivityStats) ? state.productivityStats : {};
+    return {
+      ...state,
+      breakSessions: Array.isArray(state.breakSessions) ? state.breakSessions : [],
+      productivityStats: {
+        ...stats,
+        pomodorosByDay: isRecord(stats.pomodorosByDay) ? stats.pomodorosByDay : {}
+      }
+    };
+  },
+  // 6 -> 7: focus sessions record their pauses and distortion; older ones had neither
+  (state) => {
+    const withAccounting = (session: Record<string, unknown>) => ({
+      ...session,
+      perceivedDuration: typeof session.perceivedDuration === 'number' ? session.perceivedDuration : session.duration,
+      pauses: Array.isArray(session.pauses) ? session.pauses : [],
+      segments: Array.isArray(session.segments) ? session.segments : []
+    });
+    return {
+      ...state,
+      focusSessions: (state.focusSessions as Record<string, unknown>[]).map(withAccounting),
+      ...(isRecord(state.currentSession) && { currentSession: withAccounting(state.currentSession) })
+    };
+  },
+  // 7 -> 8: focus sessions log what interrupted them
+  (state) => {
+    const withInterruptions = (session: Record<string, unknown>) => ({
+      ...session,
+      interruptions: Array.isArray(session.interruptions) ? session.interruptions : []
+    });
+    return {
+      ...state,
+      focusSessions: (state.focusSessions as Record<string, unknown>[]).map(withInterruptions),
+      ...(isRecord(state.currentSession) && { currentSession: withInterruptions(state.currentSession) })
+    };
+  },
+  // 8 -> 9: focus sessions record their distortion curve; before there was only the classic one
+  (state) => {
+    const withProfile = (session: Record<string, unknown>) => ({
+      ...session,
+      distortionProfile: isRecord(session.distortionProfile) || session.manual
+        ? session.distortionProfile
+        : { id: 'classic', name: 'Classic' }
+    });
+    return {
+      ...state,
+      focusSessions: (state.focusSessions as Record<string, unknown>[]).map(withProfile),
+      ...(isRecord(state.currentSession) && { currentSession: withProfile(state.currentSession) })
+    };
+  }
+];
+
+export const STORE_VERSION = MIGRATIONS.length;
+
+// Names whose stored payload failed to load, kept from being overwritten
+// until the user has seen why
+const heldNames = new Set<string>();
+
+/**
+ * Copy the raw payload stored under `name` to a timestamped key so it can be
+ * recovered by hand, and hold writes to `name` until releasePersistedState.
+ * Returns the key it was copied to.
+ */
+export const quarantinePersistedState = (name: string): string | undefined => {
+  if (typeof localStorage === 'undefined') return undefined;
+
+  const raw = localStorage.getItem(name);
+  if (raw === null) return undefined;
+
+  const quarantineKey = `${name}-quarantine-${Date.now()}`;
+  localStorage.setItem(quarantineKey, raw);
+  heldNames.add(name);
+  return quarantineKey;
+};
+
+// Let the store write to `name` again once the user acknowledged the failed load
+export const releasePersistedState = (name: string) => {
+  heldNames.delete(name);
+};
+
+// Run every migration between `version` and the current store version
+export const runMigrations = (persistedState: unknown, version: number): PersistedTaskState => {
+  if (version > STORE_VERSION) {
+    throw new PersistenceError(`stored version ${version} is newer than supported version ${STORE_VERSION}`);
+  }
+
+  if (!isRecord(persistedState)) {
+    throw new PersistenceError(`stored version ${version} is not an object`);
+  }
+
+  let state = persistedState;
+  for (let v = version; v < STORE_VERSION; v++) {
+    try {
+      state = MIGRATIONS[v](state);
+    } catch (error) {
+      throw new PersistenceError(`migration ${v} -> ${v + 1} failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return state as unknown as PersistedTaskState;
+};
+
+// Migrate the payload stored under `name`, quarantining it if that fails
+export const migratePersistedState = (
+  name: string,
+  persistedState: unknown,
+  version: number
+): PersistedTaskState => {
+  try {
+    return runMigrations(persistedState, version);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new PersistenceError(reason, quarantinePersistedState(name));
+  }
+};
+
+/**
+ * JSON storage that revives dates and quarantines payloads that are not
+ * valid JSON, failing hydration the same way a failed migration does.
+ * Writes to a quarantined name are dropped until it is released.
+ */
+export const createVersionedStorage = (name: string): PersistStorage<PersistedTaskState> | undefined => {
+  const jsonStorage = createJSONStorage<PersistedTaskState>(() => localStorage, { reviver: reviveDates });
+  if (!jsonStorage) return undefined;
+
+  return {
+    ...jsonStorage,
+    getItem: (key) => {
+      try {
+        return jsonStorage.getItem(key);
+      } catch (error) {
+        const reason = `stored data is not valid JSON: ${error instanceof Error ? error.message : String(error)}`;
+        throw new PersistenceError(reason, quarantinePersistedState(name));
+      }
+    },
+    setItem: (key, value) => {
+      if (heldNames.has(name)) return;
+      return jsonStorage.setItem(key, value);
+    }
+  };
+};
@@ -1,9 +1,74 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  PersistedTaskState,
+  PersistenceError,
+  STORE_VERSION,
+  createVersionedStorage,
+  migratePersistedState,
+  releasePersistedState,
+  toDate
+} from './persistence';
+import { ImportStrategy, applyBackup } from './backup';
+import { HISTORY_LIMIT, HistoryEntry, applyHistoryEntry, createHistoryEntry, invertHistoryEntry } from './history';
+import { SUBTASK_PROCRASTINATION_RELIEF } from '../utils/subtasks';
+import { RecurrenceRule, nextOccurrence } from '../utils/recurrence';
+import { findDependencyCycle, getNewlyUnblockedTasks } from '../utils/dependencies';
+import { PROJECT_COLORS } from '../utils/projects';
+import { RECAPTURE_FOCUS_SECONDS, recapturePenalty } from '../utils/recapture';
+import { getSessionTimes, retimeSession, splitSession, timeSpentDeltas } from '../utils/sessions';
+import { REFLECTION_MIN_SECONDS, isValidFocusRating } from '../utils/reflection';
+import { DEFAULT_STREAK_SETTINGS, StreakSettings, computeStreaks, getDailyActivity } from '../utils/streaks';
+import { AlertSettings, DEFAULT_ALERT_SETTINGS } from '../utils/alerts';
+import { CLASSIC_PROFILE, DistortionProfile, clampRate, findDistortionProfile, isPresetProfile } from '../utils/distortion';
+import { NEAR_MISS_SECONDS, getDeadlineOutcomes } from '../utils/deadlines';
+import { PERSONALITY_MEMORY_SIZE, PersonalityPack, RANDOM_PERSONALITY, isBuiltinPersonality } from '../utils/personalities';
+import {
+  FocusTimerState,
+  IDLE_TIMER,
+  IntervalKind,
+  anchorTimer,
+  getCompletionTime,
+  timerFocusState,
+  timerRate
+} from '../utils/timer';
+import {
+  AUTO_ADVANCE_WINDOW,
+  BreakKind,
+  DEFAULT_POMODORO_SETTINGS,
+  PomodoroSettings,
+  dayKey,
+  intervalDuration,
+  isBreak,
+  nextIntervalKind
+} from '../utils/pomodoro';
+import {
+  DEFAULT_PROCRASTINATION_RULES,
+  ProcrastinationRules,
+  advanceProcrastination,
+  focusRelief
+} from '../utils/procrastination';
 
 export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'running-away';
 export type FocusState = 'idle' | 'focus' | 'break' | 'distorted';
+export type RecaptureMethod = 'focus' | 'micro-step';
+export type InterruptionSource = 'self' | 'colleague' | 'meeting' | 'notification';
+
+export interface Subtask {
+  id: string;
+  title: string;
+  isCompleted: boolean;
+  completedAt?: Date;
+}
+
+// One time a task ran away, and how it was brought back
+export interface EscapeRecord {
+  escapedAt: Date;
+  recapturedAt?: Date;
+  method?: RecaptureMethod;
+  penalty?: number; // procrastination level the task came back with
+}
 
 export interface Task {
   id: string;
@@ -15,9 +80,47 @@ export interface Task {
   completedAt?: Date;
   lastWorkedOn?: Date;
   timeSpent: number; // in seconds
+  estimate?: number; // expected timeSpent in seconds, see utils/estimates
   importance: number; // 1-5
   procrastinationLevel: number; // 0-100, increases when task is avoided
   position: { x: number; y: number; z: number }; // 3D position for visualization
+  subtasks: Subtask[]; // checklist steps, in display order
+  recurrence?: RecurrenceRule; // completing the task spawns the next instance
+  seriesId?: string; // shared by every instance of a recurring task
+  blockedBy: string[]; // ids of tasks that must be completed first
+  projectId?: string;
+  tags: string[]; // normalized, see utils/projects
+  escapes: EscapeRecord[]; // oldest first
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+}
+
+export interface PauseInterval {
+  pausedAt: Date;
+  resumedAt?: Date; // open while the session is paused
+}
+
+// From `startTime` on the countdown ran at `rate` (1 is real time)
+export interface TimeSegment {
+  startTime: Date;
+  rate: number;
+}
+
+export interface Interruption {
+  loggedAt: Date;
+  source: InterruptionSource;
+}
+
+// How a session went, told by the user once it ended
+export interface SessionReflection {
+  note: string;
+  rating: number; // 1-5
+  intentionMet?: boolean; // only asked when the session had an intention
 }
 
 export interface FocusSession {
@@ -25,19 +128,45 @@ export interface FocusSession {
   taskId: string;
   startTime: Date;
   endTime?: Date;
-  duration: number; // in seconds
+  duration: number; // seconds actually focused, pauses left out
+  perceivedDuration: number; // seconds the distorted countdown moved
   distortionLevel: number; // 0-100, affects time visualization
+  pauses: PauseInterval[];
+  segments: TimeSegment[]; // oldest first
+  interruptions: Interruption[]; // oldest first
+  intention?: string; // what the session was meant to get done
+  reflection?: SessionReflection;
+  distortionProfile?: Pick<DistortionProfile, 'id' | 'name'>; // curve the countdown used, none when logged by hand
+  manual?: boolean; // added or edited by hand in the session log
+}
+
+// A Pomodoro break, kept apart from focus sessions
+export interface BreakSession {
+  id: string;
+  kind: BreakKind;
+  startTime: Date;
+  endTime: Date;
+  duration: number; // in seconds
+  skipped: boolean; // ended before the countdown ran out
 }
 
 export interface ProductivityStats {
   totalTasksCompleted: number;
   totalTimeSpent: number; // in seconds
-  longestStreak: number; // in days
-  currentStreak: number; // in days
-  lastActiveDay?: Date;
+  longestStreak: number; // in days, recomputed from history by syncStreaks
+  currentStreak: number; // in days, recomputed from history by syncStreaks
+  lastActiveDay?: Date; // local midnight of the last day that counted towards a streak
+  pomodorosByDay: Record<string, number>; // finished work intervals per yyyy-MM-dd
   achievements: Achievement[];
 }
 
+// Short-lived in-app message, e.g. "X is no longer blocked"
+export interface Notice {
+  id: string;
+  message: string;
+  createdAt: Date;
+}
+
 export interface Achievement {
   id: string;
   title: string;
@@ -48,26 +177,112 @@ export interface Achievement {
 
 interface TaskStore {
   tasks: Task[];
+  projects: Project[];
   focusSessions: FocusSession[];
+  breakSessions: BreakSession[];
   currentFocusState: FocusState;
   currentSession?: FocusSession;
+  timer: FocusTimerState;
+  pomodoroSettings: PomodoroSettings;
+  alertSettings: AlertSettings;
+  streakSettings: StreakSettings;
+  distortionProfiles: DistortionProfile[]; // the user's own curves, presets aren't stored
+  distortionProfileId: string; // curve the next session runs on
+  personalityPacks: PersonalityPack[]; // imported packs, built-in ones aren't stored
+  personalityId: string; // pack that comments on the stats, or RANDOM_PERSONALITY
+  personalityMemory: string[]; // keys of recently shown messages, oldest first
   productivityStats: ProductivityStats;
   achievements: Achievement[];
+  hydrationError?: string; // set when stored data could not be loaded, nothing is saved until acknowledged
+  past: HistoryEntry[]; // undo stack, most recent last
+  future: HistoryEntry[]; // redo stack, most recent last
+  notices: Notice[];
+  pendingReflectionId?: string; // finished session waiting for a reflection
+  lastProcrastinationCheck?: Date; // when the procrastination engine last ran
   
   // Task management
-  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'status' | 'timeSpent' | 'procrastinationLevel' | 'position'>) => void;
-  updateTask: (id: string, taskUpdate: Partial<Task>) => void;
+  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'status' | 'timeSpent' | 'procrastinationLevel' | 'position' | 'subtasks' | 'blockedBy' | 'tags' | 'escapes'> & Partial<Pick<Task, 'subtasks' | 'blockedBy' | 'tags'>>) => void;
+  updateTask: (id: string, taskUpdate: Partial<Task>) => string | undefined; // why the update was refused, if it was
   deleteTask: (id: string) => void;
   completeTask: (id: string) => void;
   makeTaskRunAway: (id: string) => void;
+  recaptureTask: (id: string, method: RecaptureMethod, microStep?: string) => void;
+  tickProcrastination: (now?: Date, rules?: ProcrastinationRules) => void;
+  
+  // Checklist management
+  addSubtask: (taskId: string, title: string) => void;
+  toggleSubtask: (taskId: string, subtaskId: string) => void;
+  deleteSubtask: (taskId: string, subtaskId: string) => void;
+  
+  // Project management
+  addProject: (name: string) => void;
+  updateProject: (id: string, projectUpdate: Partial<Omit<Project, 'id' | 'createdAt'>>) => void;
+  deleteProject: (id: string) => void;
   
   // Focus session management
-  startFocusSession: (taskId: string) => void;
-  endFocusSession: () => void;
+  startFocusSession: (taskId: string, startTime?: Date) => void;
+  endFocusSession: (endTime?: Date, countdown?: number) => void; // countdown: seconds of the timer interval that ran out, if one did
   setDistortionLevel: (level: number) => void;
   setFocusState: (state: FocusState) => void;
+  logInterruption: (source: InterruptionSource) => void;
+  reflectOnSession: (id: string, reflection: SessionReflection) => string | undefined; // why it was refused, if it was
+  dismissReflection: () => void;
+  
+  // Session log
+  // Both return why the change was refused, if it was
+  addFocusSession: (taskId: string, startTime: Date, endTime: Date) => string | undefined;
+  updateFocusSession: (id: string, sessionUpdate: Partial<Pick<FocusSession, 'taskId' | 'startTime' | 'endTime'>>) => string | undefined;
+  splitFocusSession: (id: string, at: Date) => void;
+  deleteFocusSession: (id: string) => void;
+  updateAchievement: (achievementId: string) => void;
+  
+  // Focus timer engine
+  startTimer: (taskId?: string, intention?: string) => void;
+  pauseTimer: () => void;
+  resumeTimer: () => void;
+  resetTimer: () => void;
+  setTimerDuration: (seconds: number) => void;
+  toggleTimeDistortion: () => void;
+  setTimerDistortionLevel: (level: number) => void;
+  syncTimer: (now?: Date) => void;
+  advanceTimer: () => void;
+  skipBreak: () => void;
+  updatePomodoroSettings: (settings: Partial<PomodoroSettings>) => void;
+  
+  // Distortion profiles
+  selectDistortionProfile: (id: string) => void;
+  addDistortionProfile: (name: string, rates: number[]) => void;
+  updateDistortionProfile: (id: string, profileUpdate: Partial<Omit<DistortionProfile, 'id'>>) => string | undefined; // why it was refused, if it was
+  deleteDistortionProfile: (id: string) => void;
+  
+  // AI personalities
+  selectPersonality: (id: string) => void;
+  importPersonalityPack: (pack: PersonalityPack) => string | undefined; // why it was refused, if it was
+  deletePersonalityPack: (id: string) => void;
+  rememberCommentary: (keys: string[]) => void;
+  
+  // Alerts
+  updateAlertSettings: (settings: Partial<AlertSettings>) => void;
+  
+  // Streaks
+  syncStreaks: (now?: Date) => void;
+  updateStreakSettings: (settings: Partial<StreakSettings>) => void;
+  
+  // Data management
+  importData: (data: PersistedTaskState, strategy: ImportStrategy) => void;
+  importCalendar: (tasks: Parameters<TaskStore['addTask']>[0][]) => void;
+  acknowledgeHydrationError: () => void;
+  
+  // History
+  undo: () => void;
+  redo: () => void;
+  
+  // Notices
+  dismissNotice: (id: string) => void;
 }
 
+const STORAGE_NAME = 'timewarp-focus-storage';
+
 const PREDEFINED_ACHIEVEMENTS: Achievement[] = [
   {
     id: 'first-task',
@@ -96,187 +311,956 @@ const PREDEFINED_ACHIEVEMENTS: Achievement[] = [
   {
     id: 'deadline-warrior',
     title: 'Deadline Warrior',
-    description: 'Completed 3 tasks within 10 minutes of their deadlines. We call this "efficient".',
+    description: `Completed 3 tasks within ${NEAR_MISS_SECONDS / 60} minutes of their deadlines. We call this "efficient".`,
     isUnlocked: false
   }
 ];
 
+// Keep predefined achievements that a saved or imported list doesn't know about yet
+const withPredefinedAchievements = (saved: Achievement[] | undefined): Achievement[] =>
+  PREDEFINED_ACHIEVEMENTS.map(predefined =>
+    saved?.find(a => a.id === predefined.id) ?? predefined
+  );
+
+const randomPosition = () => ({ x: Math.random() * 5 - 2.5, y: Math.random() * 2, z: Math.random() * 5 - 2.5 });
+
+const persistedSlice = (state: PersistedTaskState): PersistedTaskState => ({
+  tasks: state.tasks,
+  projects: state.projects,
+  focusSessions: state.focusSessions,
+  breakSessions: state.breakSessions,
+  productivityStats: state.productivityStats,
+  achievements: state.achievements,
+  lastProcrastinationCheck: state.lastProcrastinationCheck,
+  currentSession: state.currentSession,
+  timer: state.timer,
+  pomodoroSettings: state.pomodoroSettings,
+  alertSettings: state.alertSettings,
+  streakSettings: state.streakSettings,
+  distortionProfiles: state.distortionProfiles,
+  distortionProfileId: state.distortionProfileId,
+  personalityPacks: state.personalityPacks,
+  personalityId: state.personalityId,
+  personalityMemory: state.personalityMemory
+});
+
 export const useTaskStore = create<TaskStore>()(
   persist(
-    (set, get) => ({
-      tasks: [],
-      focusSessions: [],
-      currentFocusState: 'idle',
-      productivityStats: {
-        totalTasksCompleted: 0,
-        totalTimeSpent: 0,
-        longestStreak: 0,
-        currentStreak: 0,
-        achievements: []
-      },
-      achievements: PREDEFINED_ACHIEVEMENTS,
-
-      addTask: (taskData) => {
-        const newTask: Task = {
-          id: uuidv4(),
-          createdAt: new Date(),
-          status: 'pending',
-          timeSpent: 0,
-          procrastinationLevel: 0,
-          position: { x: Math.random() * 5 - 2.5, y: Math.random() * 2, z: Math.random() * 5 - 2.5 },
-          ...taskData
-        };
+    (set, get) => {
+      // Depth of nested undoable actions, so a compound action records one step
+      let historyDepth = 0;
+      
+      // Wrap an action so everything it changes (including unlocked
+      // achievements and stat counters) can be undone in one step
+      const undoable = <F extends (...args: never[]) => unknown>(
+        describe: (...args: Parameters<F>) => string,
+        action: F
+      ) => ((...args: Parameters<F>) => {
+        if (historyDepth > 0) return action(...args);
         
-        set((state) => ({ 
-          tasks: [...state.tasks, newTask] 
-        }));
+        const before = persistedSlice(get());
+        const label = describe(...args);
+        let result: ReturnType<F>;
+        historyDepth++;
+        try {
+          result = action(...args) as ReturnType<F>;
+        } finally {
+          historyDepth--;
+        }
         
-        // Check for first task achievement
-        const { achievements } = get();
-        const firstTaskAchievement = achievements.find(a => a.id === 'first-task');
-        if (firstTaskAchievement && !firstTaskAchievement.isUnlocked) {
-          get().updateAchievement('first-task');
+        const entry = createHistoryEntry(label, before, persistedSlice(get()));
+        if (entry) {
+          set((state) => ({
+            past: [...state.past, entry].slice(-HISTORY_LIMIT),
+            future: []
+          }));
         }
-      },
+        return result;
+      }) as F;
+      
+      const taskTitle = (id: string) => get().tasks.find(t => t.id === id)?.title ?? 'task';
+      const projectName = (id: string) => get().projects.find(p => p.id === id)?.name ?? 'project';
+      const findSubtask = (taskId: string, subtaskId: string) =>
+        get().tasks.find(t => t.id === taskId)?.subtasks.find(st => st.id === subtaskId);
+      
+      const pushNotice = (message: string) => {
+        set((state) => ({
+          notices: [...state.notices, { id: uuidv4(), message, createdAt: new Date() }]
+        }));
+      };
       
-      updateTask: (id, taskUpdate) => {
+      // Send a task running, shared by the user action and the procrastination engine
+      const runAway = (id: string) => {
+        const escapedAt = new Date();
         set((state) => ({
           tasks: state.tasks.map(task =>
-            task.id === id ? { ...task, ...taskUpdate } : task
+            task.id === id && task.status !== 'running-away'
+              ? { ...task, status: 'running-away' as TaskStatus, escapes: [...task.escapes, { escapedAt }] }
+              : task
           )
         }));
-      },
+        
+        // Unlock procrastination achievement
+        get().updateAchievement('procrastination-master');
+      };
+      
+      // Record a pause or a change of countdown speed on the running session
+      const updateCurrentSession = (update: (session: FocusSession) => FocusSession) => {
+        const { currentSession } = get();
+        if (currentSession) set({ currentSession: update(currentSession) });
+      };
       
-      deleteTask: (id) => {
+      const addSegment = (timer: FocusTimerState, startTime: Date) => {
+        updateCurrentSession(session => ({
+          ...session,
+          segments: [...session.segments, { startTime, rate: timerRate(timer) }]
+        }));
+      };
+      
+      const sessionTaskTitle = (id: string) => taskTitle(get().focusSessions.find(s => s.id === id)?.taskId ?? '');
+      
+      // Swap in an edited session log, moving task and total time along with it
+      const replaceFocusSessions = (focusSessions: FocusSession[]) => {
+        const deltas = timeSpentDeltas(get().focusSessions, focusSessions);
+        const totalDelta = Array.from(deltas.values()).reduce((total, delta) => total + delta, 0);
         set((state) => ({
-          tasks: state.tasks.filter(task => task.id !== id)
+          focusSessions,
+          tasks: state.tasks.map(task => {
+            const delta = deltas.get(task.id);
+            return delta ? { ...task, timeSpent: Math.max(0, task.timeSpent + delta) } : task;
+          }),
+          productivityStats: {
+            ...state.productivityStats,
+            totalTimeSpent: Math.max(0, state.productivityStats.totalTimeSpent + totalDelta)
+          }
         }));
-      },
+        get().syncStreaks();
+      };
       
-      completeTask: (id) => {
-        const completedAt = new Date();
-        set((state) => {
-          const updatedTasks = state.tasks.map(task =>
-            task.id === id ? { ...task, status: 'completed', completedAt } : task
-          );
+      // Log the break the timer is on as having ended at `endTime`
+      const recordBreak = (timer: FocusTimerState, endTime: Date, skipped: boolean) => {
+        if (!isBreak(timer.kind) || !timer.startedAt) return;
+        
+        const breakSession: BreakSession = {
+          id: uuidv4(),
+          kind: timer.kind,
+          startTime: timer.startedAt,
+          endTime,
+          duration: Math.max(0, (endTime.getTime() - timer.startedAt.getTime()) / 1000),
+          skipped
+        };
+        set((state) => ({ breakSessions: [...state.breakSessions, breakSession] }));
+      };
+      
+      // Start an interval at `startTime`, which lies in the past when
+      // chaining into the next interval right where the last one ran out
+      const beginInterval = (kind: IntervalKind, startTime: Date, duration = intervalDuration(kind, get().pomodoroSettings)) => {
+        const timer: FocusTimerState = {
+          ...get().timer,
+          phase: 'running',
+          kind,
+          startedAt: startTime,
+          duration,
+          remaining: duration,
+          anchoredAt: startTime,
+          distortionLevel: 0,
+          profile: findDistortionProfile(get().distortionProfiles, get().distortionProfileId)
+        };
+        set({ timer, currentFocusState: timerFocusState(timer) });
+        
+        const { taskId } = timer;
+        if (kind === 'work' && taskId && get().tasks.some(t => t.id === taskId)) {
+          get().startFocusSession(taskId, startTime);
+        }
+      };
+      
+      return {
+        tasks: [],
+        projects: [],
+        focusSessions: [],
+        breakSessions: [],
+        currentFocusState: 'idle',
+        timer: IDLE_TIMER,
+        pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+        alertSettings: DEFAULT_ALERT_SETTINGS,
+        streakSettings: DEFAULT_STREAK_SETTINGS,
+        distortionProfiles: [],
+        distortionProfileId: CLASSIC_PROFILE.id,
+        personalityPacks: [],
+        personalityId: RANDOM_PERSONALITY,
+        personalityMemory: [],
+        productivityStats: {
+          totalTasksCompleted: 0,
+          totalTimeSpent: 0,
+          longestStreak: 0,
+          currentStreak: 0,
+          pomodorosByDay: {},
+          achievements: []
+        },
+        achievements: PREDEFINED_ACHIEVEMENTS,
+        past: [],
+        future: [],
+        notices: [],
+
+        addTask: undoable<TaskStore['addTask']>((taskData) => `Added "${taskData.title}"`, (taskData) => {
+          const newTask: Task = {
+            id: uuidv4(),
+            createdAt: new Date(),
+            status: 'pending',
+            timeSpent: 0,
+            procrastinationLevel: 0,
+            position: randomPosition(),
+            subtasks: [],
+            blockedBy: [],
+            tags: [],
+            escapes: [],
+            ...taskData
+          };
+        
+          set((state) => ({ 
+            tasks: [...state.tasks, newTask] 
+          }));
+        
+          // Check for first task achievement
+          const { achievements } = get();
+          const firstTaskAchievement = achievements.find(a => a.id === 'first-task');
+          if (firstTaskAchievement && !firstTaskAchievement.isUnlocked) {
+            get().updateAchievement('first-task');
+          }
+        }),
+      
+        updateTask: undoable<TaskStore['updateTask']>((id) => `Edited "${taskTitle(id)}"`, (id, taskUpdate) => {
+          // Never store a dependency cycle
+          const cycle = taskUpdate.blockedBy && findDependencyCycle(get().tasks, id, taskUpdate.blockedBy);
+          if (cycle) {
+            return `That would create a dependency loop: ${cycle.map(taskTitle).join(' → ')}.`;
+          }
           
-          const completedCount = updatedTasks.filter(t => t.status === 'completed').length;
+          set((state) => ({
+            tasks: state.tasks.map(task =>
+              task.id === id ? { ...task, ...taskUpdate } : task
+            )
+          }));
+          get().syncStreaks();
+          return undefined;
+        }),
+      
+        deleteTask: undoable<TaskStore['deleteTask']>((id) => `Deleted "${taskTitle(id)}"`, (id) => {
+          set((state) => ({
+            tasks: state.tasks
+              .filter(task => task.id !== id)
+              .map(task => task.blockedBy.includes(id)
+                ? { ...task, blockedBy: task.blockedBy.filter(prerequisite => prerequisite !== id) }
+                : task
+              )
+          }));
+          get().syncStreaks();
+        }),
+      
+        completeTask: undoable<TaskStore['completeTask']>((id) => `Completed "${taskTitle(id)}"`, (id) => {
+          // Completing twice must not inflate the counter
+          const task = get().tasks.find(t => t.id === id);
+          if (!task || task.status === 'completed') return;
+        
+          const completedAt = new Date();
+          const seriesId = task.recurrence ? task.seriesId ?? task.id : task.seriesId;
           
-          // Check for achievements
-          if (completedCount >= 5) {
-            const achievement = state.achievements.find(a => a.id === 'five-tasks-completed');
-            if (achievement && !achievement.isUnlocked) {
-              get().updateAchievement('five-tasks-completed');
-            }
-          }
+          // Recurring tasks spawn their next instance; the completed one stays as history
+          const nextInstance: Task[] = task.recurrence ? [{
+            ...task,
+            id: uuidv4(),
+            status: 'pending',
+            createdAt: completedAt,
+            deadline: nextOccurrence(task.recurrence, task.deadline ?? completedAt, completedAt),
+            completedAt: undefined,
+            lastWorkedOn: undefined,
+            timeSpent: 0,
+            procrastinationLevel: 0,
+            position: randomPosition(),
+            subtasks: task.subtasks.map(st => ({ ...st, id: uuidv4(), isCompleted: false, completedAt: undefined })),
+            escapes: [],
+            seriesId
+          }] : [];
           
-          return {
-            tasks: updatedTasks,
+          set((state) => ({
+            tasks: [
+              ...state.tasks.map(task =>
+                task.id === id ? { ...task, status: 'completed' as TaskStatus, completedAt, seriesId } : task
+              ),
+              ...nextInstance
+            ],
             productivityStats: {
               ...state.productivityStats,
               totalTasksCompleted: state.productivityStats.totalTasksCompleted + 1
             }
+          }));
+          get().syncStreaks(completedAt);
+        
+          // Let the user know which tasks can start now
+          getNewlyUnblockedTasks(id, get().tasks).forEach(unblocked =>
+            pushNotice(`"${unblocked.title}" is no longer blocked. No more excuses.`)
+          );
+          
+          // Check for achievements
+          const completedCount = get().tasks.filter(t => t.status === 'completed').length;
+          if (completedCount >= 5) {
+            get().updateAchievement('five-tasks-completed');
+          }
+          if (getDeadlineOutcomes(get().tasks).filter(o => o.classification === 'near-miss').length >= 3) {
+            get().updateAchievement('deadline-warrior');
+          }
+        }),
+      
+        makeTaskRunAway: undoable<TaskStore['makeTaskRunAway']>((id) => `"${taskTitle(id)}" ran away`, runAway),
+        
+        // Bring a runaway back, recording how and at what cost
+        recaptureTask: undoable<TaskStore['recaptureTask']>((id) => `Recaptured "${taskTitle(id)}"`, (id, method, microStep) => {
+          const task = get().tasks.find(t => t.id === id);
+          if (!task || task.status !== 'running-away') return;
+          
+          const recapturedAt = new Date();
+          const penalty = recapturePenalty(task);
+          const firstStep: Subtask[] = microStep ? [{ id: uuidv4(), title: microStep, isCompleted: false }] : [];
+          
+          set((state) => ({
+            tasks: state.tasks.map(task => task.id === id ? {
+              ...task,
+              status: 'pending' as TaskStatus,
+              procrastinationLevel: penalty,
+              lastWorkedOn: recapturedAt,
+              subtasks: [...firstStep, ...task.subtasks],
+              escapes: task.escapes.map((escape, index) =>
+                index === task.escapes.length - 1 ? { ...escape, recapturedAt, method, penalty } : escape
+              )
+            } : task)
+          }));
+        }),
+        
+        // Let avoided tasks escalate on their own, catching up on the time
+        // since the last check (e.g. while the app was closed)
+        tickProcrastination: (now = new Date(), rules = DEFAULT_PROCRASTINATION_RULES) => {
+          const { tasks, currentSession, lastProcrastinationCheck } = get();
+          
+          // The first check only starts the clock, nothing is punished retroactively
+          const { levels, runaways } = lastProcrastinationCheck
+            ? advanceProcrastination(tasks, lastProcrastinationCheck, now, rules, currentSession?.taskId)
+            : { levels: {}, runaways: [] };
+          
+          // Directly, so the engine doesn't fill the undo history
+          set((state) => ({
+            ...(Object.keys(levels).length > 0 && {
+              tasks: state.tasks.map(task =>
+                task.id in levels ? { ...task, procrastinationLevel: levels[task.id] } : task
+              )
+            }),
+            lastProcrastinationCheck: now
+          }));
+          
+          // Not undoable either: undoing an escape would leave the level at
+          // the threshold, and the task could never run away again
+          runaways.forEach(id => {
+            pushNotice(`"${taskTitle(id)}" got tired of waiting for you and ran away.`);
+            runAway(id);
+          });
+        },
+        
+        addSubtask: undoable<TaskStore['addSubtask']>((taskId, title) => `Added step "${title}"`, (taskId, title) => {
+          const subtask: Subtask = { id: uuidv4(), title, isCompleted: false };
+          set((state) => ({
+            tasks: state.tasks.map(task =>
+              task.id === taskId ? { ...task, subtasks: [...task.subtasks, subtask] } : task
+            )
+          }));
+        }),
+        
+        toggleSubtask: undoable<TaskStore['toggleSubtask']>((taskId, subtaskId) => {
+          const subtask = findSubtask(taskId, subtaskId);
+          return subtask?.isCompleted ? `Unchecked "${subtask.title}"` : `Checked off "${subtask?.title ?? 'step'}"`;
+        }, (taskId, subtaskId) => {
+          const now = new Date();
+          set((state) => ({
+            tasks: state.tasks.map(task => {
+              if (task.id !== taskId) return task;
+              
+              const subtask = task.subtasks.find(st => st.id === subtaskId);
+              if (!subtask) return task;
+              const isCompleted = !subtask.isCompleted;
+              
+              return {
+                ...task,
+                subtasks: task.subtasks.map(st =>
+                  st.id === subtaskId ? { ...st, isCompleted, completedAt: isCompleted ? now : undefined } : st
+                ),
+                // Finishing a step counts as working on the task
+                ...(isCompleted && {
+                  lastWorkedOn: now,
+                  procrastinationLevel: Math.max(0, task.procrastinationLevel - SUBTASK_PROCRASTINATION_RELIEF)
+                })
+              };
+            })
+          }));
+        }),
+        
+        deleteSubtask: undoable<TaskStore['deleteSubtask']>((taskId, subtaskId) => `Removed step "${findSubtask(taskId, subtaskId)?.title ?? 'step'}"`, (taskId, subtaskId) => {
+          set((state) => ({
+            tasks: state.tasks.map(task =>
+              task.id === taskId ? { ...task, subtasks: task.subtasks.filter(st => st.id !== subtaskId) } : task
+            )
+          }));
+        }),
+      
+        addProject: undoable<TaskStore['addProject']>((name) => `Added project "${name}"`, (name) => {
+          set((state) => ({
+            projects: [...state.projects, {
+              id: uuidv4(),
+              name,
+              color: PROJECT_COLORS[state.projects.length % PROJECT_COLORS.length],
+              createdAt: new Date()
+            }]
+          }));
+        }),
+        
+        updateProject: undoable<TaskStore['updateProject']>((id) => `Edited project "${projectName(id)}"`, (id, projectUpdate) => {
+          set((state) => ({
+            projects: state.projects.map(project =>
+              project.id === id ? { ...project, ...projectUpdate } : project
+            )
+          }));
+        }),
+        
+        // Tasks of a deleted project stay around, unassigned
+        deleteProject: undoable<TaskStore['deleteProject']>((id) => `Deleted project "${projectName(id)}"`, (id) => {
+          set((state) => ({
+            projects: state.projects.filter(project => project.id !== id),
+            tasks: state.tasks.map(task =>
+              task.projectId === id ? { ...task, projectId: undefined } : task
+            )
+          }));
+        }),
+      
+        startFocusSession: (taskId, startTime = new Date()) => {
+          const { profile } = get().timer;
+          const newSession: FocusSession = {
+            id: uuidv4(),
+            taskId,
+            startTime,
+            duration: 0,
+            perceivedDuration: 0,
+            distortionLevel: 0,
+            pauses: [],
+            segments: [{ startTime, rate: 1 }],
+            interruptions: [],
+            distortionProfile: { id: profile.id, name: profile.name }
           };
-        });
-      },
+        
+          set((state) => ({
+            currentSession: newSession,
+            currentFocusState: 'focus'
+          }));
+        },
       
-      makeTaskRunAway: (id) => {
-        set((state) => ({
-          tasks: state.tasks.map(task =>
-            task.id === id ? { ...task, status: 'running-away' } : task
-          )
-        }));
+        endFocusSession: (endTime = new Date(), countdown = 0) => {
+          const { currentSession } = get();
         
-        // Unlock procrastination achievement
-        get().updateAchievement('procrastination-master');
-      },
+          if (!currentSession) return;
+        
+          // Paused time doesn't count, distorted time is kept apart
+          const { real: duration, perceived } = getSessionTimes(currentSession, endTime);
+        
+          const completedSession: FocusSession = {
+            ...currentSession,
+            endTime,
+            duration,
+            perceivedDuration: perceived,
+            pauses: currentSession.pauses.map(pause => pause.resumedAt ? pause : { ...pause, resumedAt: endTime })
+          };
+        
+          // Update task time spent and ease its procrastination
+          // (directly, so a finished session isn't an undo step)
+          set((state) => ({
+            tasks: state.tasks.map(task =>
+              task.id === currentSession.taskId
+                ? {
+                  ...task,
+                  timeSpent: task.timeSpent + duration,
+                  lastWorkedOn: endTime,
+                  procrastinationLevel: Math.max(0, task.procrastinationLevel - focusRelief(duration))
+                }
+                : task
+            ),
+            focusSessions: [...state.focusSessions, completedSession],
+            currentSession: undefined,
+            currentFocusState: 'idle',
+            productivityStats: {
+              ...state.productivityStats,
+              totalTimeSpent: state.productivityStats.totalTimeSpent + duration
+            }
+          }));
+          get().syncStreaks();
+        
+          // Ask how it went, unless it was over before it began
+          if (duration >= REFLECTION_MIN_SECONDS) set({ pendingReflectionId: completedSession.id });
+          
+          // A long enough session lures a runaway task back, and so does a lure
+          // countdown that ran out, even when distortion got it there sooner
+          const focusedTask = get().tasks.find(t => t.id === currentSession.taskId);
+          if (focusedTask?.status === 'running-away' && Math.max(duration, countdown) >= RECAPTURE_FOCUS_SECONDS) {
+            get().recaptureTask(focusedTask.id, 'focus');
+            pushNotice(`You lured "${focusedTask.title}" back. It returns, sulking, with ${recapturePenalty(focusedTask)}% procrastination.`);
+          }
+          
+          // Check for time bender achievement
+          if (currentSession.distortionLevel > 75 && duration > 14400) { // 4 hours
+            get().updateAchievement('time-bender');
+          }
+        },
       
-      startFocusSession: (taskId) => {
-        const newSession: FocusSession = {
-          id: uuidv4(),
-          taskId,
-          startTime: new Date(),
-          duration: 0,
-          distortionLevel: 0
-        };
+        setDistortionLevel: (level) => {
+          const { currentSession } = get();
+          if (currentSession) {
+            set(() => ({
+              currentSession: { ...currentSession, distortionLevel: level },
+              currentFocusState: level > 50 ? 'distorted' : 'focus'
+            }));
+          }
+        },
+      
+        setFocusState: (state: FocusState) => {
+          set(() => ({ currentFocusState: state }));
+        },
         
-        set((state) => ({
-          currentSession: newSession,
-          currentFocusState: 'focus'
-        }));
-      },
+        addFocusSession: undoable<TaskStore['addFocusSession']>((taskId) => `Logged time on "${taskTitle(taskId)}"`, (taskId, startTime, endTime) => {
+          if (endTime.getTime() <= startTime.getTime()) {
+            return 'A session has to end after it starts.';
+          }
+          
+          const session = retimeSession({
+            id: uuidv4(),
+            taskId,
+            startTime,
+            duration: 0,
+            perceivedDuration: 0,
+            distortionLevel: 0,
+            pauses: [],
+            segments: [],
+            interruptions: [],
+            manual: true
+          }, startTime, endTime);
+          replaceFocusSessions([...get().focusSessions, session]);
+          
+          // Retroactive work still counts as touching the task
+          set((state) => ({
+            tasks: state.tasks.map(task =>
+              task.id === taskId && endTime.getTime() > (task.lastWorkedOn?.getTime() ?? 0)
+                ? { ...task, lastWorkedOn: endTime }
+                : task
+            )
+          }));
+          return undefined;
+        }),
+        
+        updateFocusSession: undoable<TaskStore['updateFocusSession']>((id) => `Edited a session of "${sessionTaskTitle(id)}"`, (id, sessionUpdate) => {
+          const session = get().focusSessions.find(s => s.id === id);
+          if (!session) return 'That session no longer exists.';
+          
+          const startTime = sessionUpdate.startTime ?? session.startTime;
+          const endTime = sessionUpdate.endTime ?? session.endTime ?? session.startTime;
+          if (endTime.getTime() <= startTime.getTime()) {
+            return 'A session has to end after it starts.';
+          }
+          
+          const updated = retimeSession({ ...session, ...sessionUpdate, manual: true }, startTime, endTime);
+          replaceFocusSessions(get().focusSessions.map(s => s.id === id ? updated : s));
+          return undefined;
+        }),
+        
+        splitFocusSession: undoable<TaskStore['splitFocusSession']>((id) => `Split a session of "${sessionTaskTitle(id)}"`, (id, at) => {
+          const session = get().focusSessions.find(s => s.id === id);
+          if (!session?.endTime || at.getTime() <= session.startTime.getTime() || at.getTime() >= session.endTime.getTime()) return;
+          
+          const parts = splitSession(session, at, uuidv4());
+          replaceFocusSessions(get().focusSessions.flatMap(s => s.id === id ? parts : [s]));
+        }),
+        
+        deleteFocusSession: undoable<TaskStore['deleteFocusSession']>((id) => `Deleted a session of "${sessionTaskTitle(id)}"`, (id) => {
+          replaceFocusSessions(get().focusSessions.filter(s => s.id !== id));
+        }),
+        
+        logInterruption: (source) => {
+          updateCurrentSession(session => ({
+            ...session,
+            interruptions: [...session.interruptions, { loggedAt: new Date(), source }]
+          }));
+        },
+        
+        reflectOnSession: undoable<TaskStore['reflectOnSession']>((id) => `Reflected on a session of "${sessionTaskTitle(id)}"`, (id, reflection) => {
+          if (!isValidFocusRating(reflection.rating)) {
+            return 'Rate your focus from 1 to 5.';
+          }
+          
+          set((state) => ({
+            focusSessions: state.focusSessions.map(session =>
+              session.id === id ? { ...session, reflection: { ...reflection, note: reflection.note.trim() } } : session
+            ),
+            pendingReflectionId: state.pendingReflectionId === id ? undefined : state.pendingReflectionId
+          }));
+          return undefined;
+        }),
+        
+        dismissReflection: () => {
+          set({ pendingReflectionId: undefined });
+        },
       
-      endFocusSession: () => {
-        const { currentSession, tasks } = get();
+        updateAchievement: (achievementId: string) => {
+          // Already unlocked achievements keep their original unlock time
+          const achievement = get().achievements.find(a => a.id === achievementId);
+          if (!achievement || achievement.isUnlocked) return;
         
-        if (!currentSession) return;
+          set((state) => ({
+            achievements: state.achievements.map(achievement => 
+              achievement.id === achievementId 
+                ? { ...achievement, isUnlocked: true, unlockedAt: new Date() } 
+                : achievement
+            )
+          }));
+        },
+      
+        startTimer: (taskId, intention) => {
+          set((state) => ({ timer: { ...state.timer, taskId } }));
+          beginInterval('work', new Date(), get().timer.duration);
+          if (intention?.trim()) {
+            updateCurrentSession(session => ({ ...session, intention: intention.trim() }));
+          }
+        },
         
-        const endTime = new Date();
-        const duration = (endTime.getTime() - currentSession.startTime.getTime()) / 1000;
+        pauseTimer: () => {
+          const now = new Date();
+          const timer: FocusTimerState = { ...anchorTimer(get().timer, now), phase: 'paused', anchoredAt: undefined };
+          set({ timer, currentFocusState: timerFocusState(timer) });
+          updateCurrentSession(session => ({
+            ...session,
+            pauses: [...session.pauses, { pausedAt: now }]
+          }));
+        },
         
-        const completedSession: FocusSession = {
-          ...currentSession,
-          endTime,
-          duration
-        };
+        // Resuming always returns to undistorted time
+        resumeTimer: () => {
+          const now = new Date();
+          const timer: FocusTimerState = { ...get().timer, phase: 'running', anchoredAt: now };
+          set({ timer, currentFocusState: timerFocusState(timer) });
+          updateCurrentSession(session => ({
+            ...session,
+            pauses: session.pauses.map(pause => pause.resumedAt ? pause : { ...pause, resumedAt: now })
+          }));
+          addSegment(timer, now);
+        },
         
-        // Update task time spent
-        const task = tasks.find(t => t.id === currentSession.taskId);
-        if (task) {
-          get().updateTask(task.id, { 
-            timeSpent: task.timeSpent + duration,
-            lastWorkedOn: endTime
+        resetTimer: () => {
+          const { timer, pomodoroSettings } = get();
+          const now = new Date();
+          
+          get().endFocusSession(now);
+          if (timer.phase !== 'completed') recordBreak(timer, now, true);
+          
+          // A work interval is restarted at the same length, a break goes back to work
+          const duration = isBreak(timer.kind) ? intervalDuration('work', pomodoroSettings) : timer.duration;
+          set({
+            timer: {
+              ...IDLE_TIMER,
+              duration,
+              remaining: duration,
+              completedWork: timer.kind === 'long-break' ? 0 : timer.completedWork
+            },
+            currentFocusState: 'idle'
           });
-        }
+        },
         
-        set((state) => ({
-          focusSessions: [...state.focusSessions, completedSession],
-          currentSession: undefined,
-          currentFocusState: 'idle',
-          productivityStats: {
-            ...state.productivityStats,
-            totalTimeSpent: state.productivityStats.totalTimeSpent + duration
+        setTimerDuration: (seconds) => {
+          if (get().timer.phase !== 'idle') return;
+          set((state) => ({
+            timer: { ...state.timer, duration: seconds, remaining: seconds }
+          }));
+        },
+        
+        toggleTimeDistortion: () => {
+          const { phase } = get().timer;
+          if (phase !== 'running' && phase !== 'distorted') return;
+          
+          const nextPhase = phase === 'running' ? 'distorted' : 'running';
+          const now = new Date();
+          const timer: FocusTimerState = { ...anchorTimer(get().timer, now), phase: nextPhase };
+          set({ timer, currentFocusState: timerFocusState(timer) });
+          addSegment(timer, now);
+        },
+        
+        setTimerDistortionLevel: (level) => {
+          if (get().timer.phase !== 'distorted') return;
+          
+          const distortionLevel = Math.min(100, Math.max(0, level));
+          const now = new Date();
+          // Anchor first, so the new speed only applies from now on
+          const timer: FocusTimerState = { ...anchorTimer(get().timer, now), distortionLevel };
+          set({ timer });
+          updateCurrentSession(session => ({ ...session, distortionLevel }));
+          addSegment(timer, now);
+        },
+        
+        // Finish the countdown once it reaches zero, even if that happened
+        // while the page was closed
+        syncTimer: (now = new Date()) => {
+          const { timer, pomodoroSettings } = get();
+          const completedAt = getCompletionTime(timer, now);
+          if (!completedAt) return;
+          
+          let { completedWork } = timer;
+          if (timer.kind === 'work') {
+            get().endFocusSession(completedAt, timer.duration);
+            completedWork++;
+            
+            const day = dayKey(completedAt);
+            set((state) => ({
+              productivityStats: {
+                ...state.productivityStats,
+                pomodorosByDay: {
+                  ...state.productivityStats.pomodorosByDay,
+                  [day]: (state.productivityStats.pomodorosByDay[day] ?? 0) + 1
+                }
+              }
+            }));
+          } else {
+            recordBreak(timer, completedAt, false);
+            if (timer.kind === 'long-break') completedWork = 0;
           }
-        }));
+          
+          const finished: FocusTimerState = {
+            ...timer,
+            phase: 'completed',
+            remaining: 0,
+            anchoredAt: undefined,
+            distortionLevel: 0,
+            completedWork
+          };
+          set({ timer: finished, currentFocusState: timerFocusState(finished) });
+          
+          // Chain into the next interval, which may have run out as well
+          if (pomodoroSettings.autoAdvance && now.getTime() - completedAt.getTime() < AUTO_ADVANCE_WINDOW) {
+            beginInterval(nextIntervalKind(finished, pomodoroSettings), completedAt);
+            get().syncTimer(now);
+          }
+        },
         
-        // Check for time bender achievement
-        if (currentSession.distortionLevel > 75 && duration > 14400) { // 4 hours
-          get().updateAchievement('time-bender');
-        }
-      },
+        advanceTimer: () => {
+          const { timer, pomodoroSettings } = get();
+          if (timer.phase !== 'completed') return;
+          beginInterval(nextIntervalKind(timer, pomodoroSettings), new Date());
+        },
+        
+        // Skip the running break, or the one that is due, and go back to work
+        skipBreak: () => {
+          const { timer, pomodoroSettings } = get();
+          const skipped = timer.phase === 'completed' ? nextIntervalKind(timer, pomodoroSettings) : timer.kind;
+          if (!isBreak(skipped)) return;
+          
+          get().resetTimer();
+          // Skipping the long break still starts a new cycle
+          if (skipped === 'long-break') {
+            set((state) => ({ timer: { ...state.timer, completedWork: 0 } }));
+          }
+        },
+        
+        updatePomodoroSettings: (settings) => {
+          const pomodoroSettings = { ...get().pomodoroSettings, ...settings };
+          const workDuration = intervalDuration('work', pomodoroSettings);
+          set((state) => ({
+            pomodoroSettings,
+            // An idle timer picks up a new work length right away
+            ...(settings.workMinutes !== undefined && state.timer.phase === 'idle' && {
+              timer: { ...state.timer, duration: workDuration, remaining: workDuration }
+            })
+          }));
+        },
       
-      setDistortionLevel: (level) => {
-        const { currentSession } = get();
-        if (currentSession) {
-          set(() => ({
-            currentSession: { ...currentSession, distortionLevel: level },
-            currentFocusState: level > 50 ? 'distorted' : 'focus'
+        // Sessions already running keep the curve they started with
+        selectDistortionProfile: (id) => {
+          set((state) => ({ distortionProfileId: findDistortionProfile(state.distortionProfiles, id).id }));
+        },
+        
+        addDistortionProfile: (name, rates) => {
+          const profile: DistortionProfile = { id: uuidv4(), name: name.trim() || 'Untitled curve', rates: rates.map(clampRate) };
+          set((state) => ({
+            distortionProfiles: [...state.distortionProfiles, profile],
+            distortionProfileId: profile.id
           }));
-        }
-      },
+        },
+        
+        updateDistortionProfile: (id, profileUpdate) => {
+          if (isPresetProfile(id)) {
+            return 'Presets cannot be edited, duplicate them instead.';
+          }
+          set((state) => ({
+            distortionProfiles: state.distortionProfiles.map(profile =>
+              profile.id === id
+                ? {
+                  ...profile,
+                  ...profileUpdate,
+                  ...(profileUpdate.rates && { rates: profileUpdate.rates.map(clampRate) })
+                }
+                : profile
+            )
+          }));
+          return undefined;
+        },
+        
+        deleteDistortionProfile: (id) => {
+          set((state) => ({
+            distortionProfiles: state.distortionProfiles.filter(profile => profile.id !== id),
+            distortionProfileId: state.distortionProfileId === id ? CLASSIC_PROFILE.id : state.distortionProfileId
+          }));
+        },
       
-      setFocusState: (state: FocusState) => {
-        set(() => ({ currentFocusState: state }));
-      },
+        selectPersonality: (id) => {
+          set(() => ({ personalityId: id }));
+        },
+        
+        // Importing a pack again replaces the earlier version
+        importPersonalityPack: (pack) => {
+          if (isBuiltinPersonality(pack.id)) {
+            return `"${pack.id}" belongs to a built-in personality. Give your pack an id of its own.`;
+          }
+          set((state) => ({
+            personalityPacks: [...state.personalityPacks.filter(existing => existing.id !== pack.id), pack]
+          }));
+          return undefined;
+        },
+        
+        deletePersonalityPack: (id) => {
+          set((state) => ({
+            personalityPacks: state.personalityPacks.filter(pack => pack.id !== id),
+            personalityId: state.personalityId === id ? RANDOM_PERSONALITY : state.personalityId
+          }));
+        },
+        
+        rememberCommentary: (keys) => {
+          set((state) => ({
+            personalityMemory: [...state.personalityMemory.filter(key => !keys.includes(key)), ...keys].slice(-PERSONALITY_MEMORY_SIZE)
+          }));
+        },
       
-      updateAchievement: (achievementId: string) => {
-        set((state) => ({
-          achievements: state.achievements.map(achievement => 
-            achievement.id === achievementId 
-              ? { ...achievement, isUnlocked: true, unlockedAt: new Date() } 
-              : achievement
-          )
-        }));
-      }
-    }),
+        updateAlertSettings: (settings) => {
+          set((state) => ({ alertSettings: { ...state.alertSettings, ...settings } }));
+        },
+        
+        // Streaks are always derived from the history, so edits, imports and
+        // undo can't leave them out of step
+        syncStreaks: (now = new Date()) => {
+          const { tasks, focusSessions, streakSettings, productivityStats } = get();
+          const { currentStreak, longestStreak, lastActiveDay } = computeStreaks(getDailyActivity(tasks, focusSessions), streakSettings, now);
+          if (
+            currentStreak === productivityStats.currentStreak &&
+            longestStreak === productivityStats.longestStreak &&
+            lastActiveDay?.getTime() === productivityStats.lastActiveDay?.getTime()
+          ) return;
+          
+          set((state) => ({
+            productivityStats: { ...state.productivityStats, currentStreak, longestStreak, lastActiveDay }
+          }));
+        },
+        
+        updateStreakSettings: (settings) => {
+          set((state) => ({ streakSettings: { ...state.streakSettings, ...settings } }));
+          get().syncStreaks();
+        },
+      
+        // All tasks of a calendar file come and go in one undo step
+        importCalendar: undoable<TaskStore['importCalendar']>(() => 'Imported calendar', (tasks) => {
+          tasks.forEach(task => get().addTask(task));
+        }),
+      
+        importData: undoable<TaskStore['importData']>(() => 'Imported backup', (data, strategy) => {
+          set((state) => {
+            const merged = applyBackup(persistedSlice(state), data, strategy);
+          
+            return { ...merged, achievements: withPredefinedAchievements(merged.achievements) };
+          });
+          get().syncStreaks();
+        }),
+      
+        // The stored data is safe in its quarantine copy, so saving can resume
+        acknowledgeHydrationError: () => {
+          releasePersistedState(STORAGE_NAME);
+          set(() => ({ hydrationError: undefined }));
+        },
+      
+        undo: () => {
+          const entry = get().past[get().past.length - 1];
+          if (!entry) return;
+        
+          set((state) => ({
+            ...applyHistoryEntry(entry, persistedSlice(state)),
+            past: state.past.slice(0, -1),
+            future: [...state.future, invertHistoryEntry(entry)]
+          }));
+          get().syncStreaks();
+        },
+      
+        redo: () => {
+          const entry = get().future[get().future.length - 1];
+          if (!entry) return;
+        
+          set((state) => ({
+            ...applyHistoryEntry(entry, persistedSlice(state)),
+            future: state.future.slice(0, -1),
+            past: [...state.past, invertHistoryEntry(entry)]
+          }));
+          get().syncStreaks();
+        },
+        
+        dismissNotice: (id) => {
+          set((state) => ({
+            notices: state.notices.filter(notice => notice.id !== id)
+          }));
+        }
+      };
+    },
     {
-      name: 'timewarp-focus-storage',
-      partialize: (state) => ({ 
-        tasks: state.tasks,
-        focusSessions: state.focusSessions,
-        productivityStats: state.productivityStats,
-        achievements: state.achievements
-      })
+      name: STORAGE_NAME,
+      version: STORE_VERSION,
+      storage: createVersionedStorage(STORAGE_NAME),
+      partialize: (state) => persistedSlice(state),
+      migrate: (persistedState, version) => migratePersistedState(STORAGE_NAME, persistedState, version),
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as PersistedTaskState | undefined;
+        if (!persisted) return currentState;
+        
+        // Timers saved before the Pomodoro cycle lack its fields, and
+        // `startedAt` used to come back from storage as a string
+        const timer: FocusTimerState = {
+          ...IDLE_TIMER,
+          ...persisted.timer,
+          startedAt: toDate(persisted.timer?.startedAt),
+          anchoredAt: toDate(persisted.timer?.anchoredAt)
+        };
+        return {
+          ...currentState,
+          ...persisted,
+          timer,
+          pomodoroSettings: { ...DEFAULT_POMODORO_SETTINGS, ...persisted.pomodoroSettings },
+          alertSettings: { ...DEFAULT_ALERT_SETTINGS, ...persisted.alertSettings },
+          streakSettings: { ...DEFAULT_STREAK_SETTINGS, ...persisted.streakSettings },
+          currentFocusState: timerFocusState(timer),
+          achievements: withPredefinedAchievements(persisted.achievements)
+        };
+      },
+      onRehydrateStorage: () => (_state, error) => {
+        if (error) {
+          // Hydration runs while the store is still being created
+          const message = error instanceof Error ? error.message : String(error);
+          const quarantineKey = error instanceof PersistenceError ? error.quarantineKey : undefined;
+          queueMicrotask(() => useTaskStore.setState({
+            hydrationError: quarantineKey ? `${message}. A copy was saved under "${quarantineKey}".` : message
+          }));
+        }
+      }
     }
   )
 ); 
\ No newline at end of file
@@ -1,6 +1,6 @@
-import React, { useRef, useMemo } from 'react';
+import React, { useRef, useMemo, useCallback, useLayoutEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { useTexture, Plane, Text, useGLTF } from '@react-three/drei';
+import { useTexture, Plane, Text, useGLTF, Line } from '@react-three/drei';
 import * as THREE from 'three';
 import { Task, ProductivityStats } from '../store/useTaskStore';
 import TaskObject3D from './TaskObject3D';
@@ -11,10 +11,66 @@ interface ProductivityLandscapeProps {
   onTaskClick?: (taskId: string) => void;
 }
 
+type TaskMeshes = Map<string, THREE.Object3D>;
+
+interface DependencyEdgeProps {
+  prerequisite: Task;
+  task: Task;
+  meshes: React.RefObject<TaskMeshes>;
+}
+
+// Red while the prerequisite is open, green once it's done. The ends follow
+// the task objects, which wander off when running away or climbing back from the swamp
+function DependencyEdge({ prerequisite, task, meshes }: DependencyEdgeProps) {
+  const lineRef = useRef<React.ComponentRef<typeof Line>>(null);
+  const drawn = useRef<number[]>([]);
+  const satisfied = prerequisite.status === 'completed';
+  
+  // A render puts the line back at the home positions, so redraw it on the next frame
+  useLayoutEffect(() => {
+    drawn.current = [];
+  });
+  
+  useFrame(() => {
+    const start = meshes.current?.get(prerequisite.id)?.position;
+    const end = meshes.current?.get(task.id)?.position;
+    if (!lineRef.current || !start || !end) return;
+    
+    const points = [start.x, start.y, start.z, end.x, end.y, end.z];
+    if (points.every((value, i) => value === drawn.current[i])) return;
+    drawn.current = points;
+    lineRef.current.geometry.setPositions(points);
+    lineRef.current.computeLineDistances();
+  });
+  
+  return (
+    <Line
+      ref={lineRef}
+      points={[
+        [prerequisite.position.x, prerequisite.position.y, prerequisite.position.z],
+        [task.position.x, task.position.y, task.position.z]
+      ]}
+      color={satisfied ? '#10b981' : '#ef4444'}
+      lineWidth={satisfied ? 1 : 2}
+      dashed={!satisfied}
+      dashSize={0.3}
+      gapSize={0.2}
+      transparent
+      opacity={satisfied ? 0.4 : 0.8}
+    />
+  );
+}
+
 export default function ProductivityLandscape({ tasks, stats, onTaskClick }: ProductivityLandscapeProps) {
   const groundRef = useRef<THREE.Mesh>(null);
   const focusMountainRef = useRef<THREE.Mesh>(null);
   const procrastinationSwampRef = useRef<THREE.Mesh>(null);
+  const taskMeshes = useRef<TaskMeshes>(new Map());
+  
+  const registerTaskMesh = useCallback((id: string, mesh: THREE.Object3D | null) => {
+    if (mesh) taskMeshes.current.set(id, mesh);
+    else taskMeshes.current.delete(id);
+  }, []);
   
   // Simulate landscape features based on productivity
   const landscapeFeatures = useMemo(() => {
@@ -316,12 +372,29 @@ export default function ProductivityLandscape({ tasks, stats, onTaskClick }: Pro
         </group>
       )}
       
+      {/* Dependency edges between where the tasks are drawn */}
+      {tasks.flatMap(task =>
+        task.blockedBy.map(prerequisiteId => {
+          const prerequisite = tasks.find(t => t.id === prerequisiteId);
+          if (!prerequisite) return null;
+          return (
+            <DependencyEdge
+              key={`${prerequisiteId}->${task.id}`}
+              prerequisite={prerequisite}
+              task={task}
+              meshes={taskMeshes}
+            />
+          );
+        })
+      )}
+      
       {/* Render 3D task objects */}
       {tasks.map((task) => (
         <TaskObject3D 
           key={task.id} 
           task={task} 
           onClick={() => onTaskClick && onTaskClick(task.id)} 
+          onMesh={registerTaskMesh}
         />
       ))}
       
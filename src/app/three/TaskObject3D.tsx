@@ -4,19 +4,28 @@ import { Text, MeshWobbleMaterial, MeshDistortMaterial } from '@react-three/drei
 import { useSpring, animated } from '@react-spring/three';
 import * as THREE from 'three';
 import { Task } from '../store/useTaskStore';
+import { progressDampening } from '../utils/subtasks';
+import { RETURN_ANIMATION_WINDOW, getLastEscape, wasRecentlyRecaptured } from '../utils/recapture';
+import { useClockNow } from '../hooks/useClock';
 
 interface TaskObject3DProps {
   task: Task;
   onClick?: () => void;
+  onMesh?: (taskId: string, mesh: THREE.Mesh | null) => void; // where the task is drawn, e.g. for edges to follow
   scale?: number;
 }
 
-// Helper function to calculate urgency based on deadline
-const calculateUrgency = (task: Task): number => {
+// Where recaptured tasks climb out from (the Procrastination Swamp in ProductivityLandscape)
+const SWAMP_POSITION = new THREE.Vector3(-8, -0.3, 5);
+const HOMECOMING_DURATION = 4000;
+
+// Helper function to calculate urgency based on deadline and checklist progress
+const calculateUrgency = (task: Task, now: Date): number => calculateDeadlineUrgency(task, now) * progressDampening(task);
+
+const calculateDeadlineUrgency = (task: Task, now: Date): number => {
   if (!task.deadline) return 0;
   
-  const now = new Date();
-  const deadline = new Date(task.deadline);
+  const deadline = task.deadline;
   const timeLeft = deadline.getTime() - now.getTime();
   
   // If deadline has passed
@@ -35,23 +44,78 @@ const calculateUrgency = (task: Task): number => {
   return Math.max(0.1, 0.3 * task.importance / 5);
 };
 
-export default function TaskObject3D({ task, onClick, scale = 1 }: TaskObject3DProps) {
+// Checklist steps orbit the task like small moons; finished ones glow green
+function SubtaskSatellites({ task, center, scale }: { task: Task; center: THREE.Vector3; scale: number }) {
+  const orbitRef = useRef<THREE.Group>(null);
+  
+  useFrame((_, delta) => {
+    if (orbitRef.current) {
+      orbitRef.current.rotation.y += delta * 0.6;
+    }
+  });
+  
+  const radius = 1.1 * scale;
+  
+  return (
+    <group ref={orbitRef} position={[center.x, center.y, center.z]}>
+      {task.subtasks.map((subtask, index) => {
+        const angle = (index / task.subtasks.length) * Math.PI * 2;
+        return (
+          <mesh
+            key={subtask.id}
+            position={[Math.cos(angle) * radius, Math.sin(angle * 2) * 0.2 * scale, Math.sin(angle) * radius]}
+          >
+            <sphereGeometry args={[0.12 * scale, 12, 12]} />
+            <meshStandardMaterial
+              color={subtask.isCompleted ? '#10b981' : '#94a3b8'}
+              emissive={subtask.isCompleted ? '#10b981' : '#000000'}
+              emissiveIntensity={subtask.isCompleted ? 0.6 : 0}
+            />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+}
+
+export default function TaskObject3D({ task, onClick, onMesh, scale = 1 }: TaskObject3DProps) {
   const meshRef = useRef<THREE.Mesh>(null);
   const textRef = useRef<any>(null);
   const [hovered, setHovered] = useState(false);
-  const [urgency, setUrgency] = useState(() => calculateUrgency(task));
-  const [targetPosition, setTargetPosition] = useState<THREE.Vector3>(
-    new THREE.Vector3(task.position.x, task.position.y, task.position.z)
+  // Recalculate urgency every second, on the clock shared by all tasks
+  const now = useClockNow(1000);
+  const urgency = calculateUrgency(task, now);
+  // Recently recaptured tasks start in the swamp and make their way home
+  const [targetPosition, setTargetPosition] = useState<THREE.Vector3>(() =>
+    wasRecentlyRecaptured(task) && task.status !== 'running-away'
+      ? SWAMP_POSITION.clone()
+      : new THREE.Vector3(task.position.x, task.position.y, task.position.z)
   );
+  const [returning, setReturning] = useState(false);
+  const recapturedAt = getLastEscape(task)?.recapturedAt?.getTime();
+  const home = useRef(task.position);
+  home.current = task.position;
+  
+  useEffect(() => {
+    onMesh?.(task.id, meshRef.current);
+    return () => onMesh?.(task.id, null);
+  }, [task.id, onMesh]);
   
-  // Recalculate urgency every second
+  // Play the homecoming when the task was recaptured a moment ago
   useEffect(() => {
-    const interval = setInterval(() => {
-      setUrgency(calculateUrgency(task));
-    }, 1000);
+    if (!recapturedAt || Date.now() - recapturedAt > RETURN_ANIMATION_WINDOW) return;
+    
+    const start = setTimeout(() => {
+      setTargetPosition(new THREE.Vector3(home.current.x, home.current.y, home.current.z));
+      setReturning(true);
+    }, 300);
+    const end = setTimeout(() => setReturning(false), 300 + HOMECOMING_DURATION);
     
-    return () => clearInterval(interval);
-  }, [task]);
+    return () => {
+      clearTimeout(start);
+      clearTimeout(end);
+    };
+  }, [recapturedAt]);
   
   // Spring animation for position, rotation and scale
   const { position, rotation, meshScale } = useSpring({
@@ -62,7 +126,8 @@ export default function TaskObject3D({ task, onClick, scale = 1 }: TaskObject3DP
     meshScale: hovered 
       ? [scale * 1.2, scale * 1.2, scale * 1.2] 
       : [scale, scale, scale],
-    config: { mass: 1, tension: 170, friction: 26 }
+    // A slow, reluctant walk back from the swamp
+    config: returning ? { mass: 3, tension: 40, friction: 30 } : { mass: 1, tension: 170, friction: 26 }
   });
   
   // Make tasks run away when procrastinated or when status is "running-away"
@@ -85,6 +150,11 @@ export default function TaskObject3D({ task, onClick, scale = 1 }: TaskObject3DP
       setTargetPosition(newPos);
     }
     
+    // Recaptured task sulks its way home with a little wobble
+    if (returning) {
+      meshRef.current.rotation.z = Math.sin(clock.getElapsedTime() * 6) * 0.3;
+    }
+    
     // Task is completed, make it float gently upward
     if (task.status === 'completed') {
       const time = clock.getElapsedTime();
@@ -160,6 +230,10 @@ export default function TaskObject3D({ task, onClick, scale = 1 }: TaskObject3DP
         )}
       </animated.mesh>
       
+      {task.subtasks.length > 0 && (
+        <SubtaskSatellites task={task} center={targetPosition} scale={scale} />
+      )}
+      
       <Text
         ref={textRef}
         position={[
@@ -177,7 +251,25 @@ export default function TaskObject3D({ task, onClick, scale = 1 }: TaskObject3DP
         {task.title}
       </Text>
       
-      {urgency > 0.7 && (
+      {returning && (
+        <Text
+          position={[
+            targetPosition.x, 
+            targetPosition.y + 1.9 * scale, 
+            targetPosition.z
+          ]}
+          fontSize={0.25 * scale}
+          color="#10b981"
+          anchorX="center"
+          anchorY="middle"
+          outlineWidth={0.02}
+          outlineColor="#000000"
+        >
+          RECAPTURED!
+        </Text>
+      )}
+      
+      {urgency > 0.7 && !returning && (
         <Text
           position={[
             targetPosition.x, 
@@ -191,7 +283,7 @@ export default function TaskObject3D({ task, onClick, scale = 1 }: TaskObject3DP
           outlineWidth={0.02}
           outlineColor="#000000"
         >
-          {task.deadline ? `Deadline: ${new Date(task.deadline).toLocaleString()}` : 'URGENT!'}
+          {task.deadline ? `Deadline: ${task.deadline.toLocaleString()}` : 'URGENT!'}
         </Text>
       )}
     </group>
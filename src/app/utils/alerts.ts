@@ -0,0 +1,75 @@
+import type { Task } from '../store/useTaskStore';
+
+export type AlertEvent = 'session-end' | 'break-end' | 'deadline' | 'runaway';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // "HH:mm", local time
+  end: string; // "HH:mm", may be earlier than start to span midnight
+}
+
+export interface AlertSettings {
+  notifications: boolean; // desktop notifications, needs the browser's permission
+  sound: boolean;
+  events: Record<AlertEvent, boolean>;
+  quietHours: QuietHours;
+}
+
+// Everything is opt-in
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  notifications: false,
+  sound: false,
+  events: {
+    'session-end': true,
+    'break-end': true,
+    'deadline': true,
+    'runaway': true
+  },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00'
+  }
+};
+
+export const ALERT_EVENT_LABELS: Record<AlertEvent, string> = {
+  'session-end': 'Focus session ends',
+  'break-end': 'Break ends',
+  'deadline': 'Deadline approaching',
+  'runaway': 'Task runs away'
+};
+
+// How long before a deadline the alert goes off
+export const DEADLINE_ALERT_LEAD = 60 * 60 * 1000;
+
+const minutesOfDay = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const isQuietTime = (quietHours: QuietHours, at: Date = new Date()) => {
+  if (!quietHours.enabled) return false;
+  const now = at.getHours() * 60 + at.getMinutes();
+  const start = minutesOfDay(quietHours.start);
+  const end = minutesOfDay(quietHours.end);
+  return start <= end ? now >= start && now < end : now >= start || now < end;
+};
+
+export const shouldAlert = (settings: AlertSettings, event: AlertEvent, at: Date = new Date()) =>
+  (settings.sound || settings.notifications) && settings.events[event] && !isQuietTime(settings.quietHours, at);
+
+/**
+ * Open tasks whose deadline came within `lead` between `from` and `to`, so
+ * checking back to back intervals alerts every deadline exactly once.
+ */
+export const getDeadlinesEnteringWindow = (
+  tasks: Task[],
+  from: Date,
+  to: Date,
+  lead: number = DEADLINE_ALERT_LEAD
+): Task[] =>
+  tasks.filter(task => {
+    if (!task.deadline || task.status === 'completed') return false;
+    const alertAt = task.deadline.getTime() - lead;
+    return alertAt > from.getTime() && alertAt <= to.getTime();
+  });
@@ -0,0 +1,90 @@
+import { addDays, format, startOfDay, startOfWeek } from 'date-fns';
+import type { DayActivity } from './streaks';
+import { dayKey } from './pomodoro';
+
+// Time series of focus and completed tasks for the stats charts
+
+export type Granularity = 'day' | 'week';
+
+export interface DateRange {
+  from: Date; // local midnight of the first day
+  to: Date; // local midnight of the last day, inclusive
+}
+
+export interface ChartBucket {
+  start: Date;
+  label: string;
+  focusMinutes: number;
+  tasksCompleted: number;
+}
+
+export interface HeatmapCell {
+  day: Date;
+  focusMinutes: number;
+  level: number; // 0-4, relative to the busiest day shown
+}
+
+export const RANGE_PRESETS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 365, label: 'Year' }
+];
+
+export const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// The last `days` days, today included
+export const presetRange = (days: number, now: Date = new Date()): DateRange => ({
+  from: startOfDay(addDays(now, -(days - 1))),
+  to: startOfDay(now)
+});
+
+/**
+ * Activity per day, or per week starting on Monday, across the range.
+ * Empty buckets are kept so gaps show up in the charts.
+ */
+export const bucketActivity = (activity: Map<string, DayActivity>, range: DateRange, granularity: Granularity): ChartBucket[] => {
+  const buckets = new Map<string, ChartBucket>();
+
+  for (let day = range.from; day.getTime() <= range.to.getTime(); day = addDays(day, 1)) {
+    const start = granularity === 'week' ? startOfWeek(day, WEEK_OPTIONS) : day;
+    const key = dayKey(start);
+    const bucket = buckets.get(key) ?? {
+      start,
+      label: granularity === 'week' ? `Week of ${format(start, 'MMM d')}` : format(start, 'EEE, MMM d'),
+      focusMinutes: 0,
+      tasksCompleted: 0
+    };
+    const dayActivity = activity.get(dayKey(day));
+    buckets.set(key, {
+      ...bucket,
+      focusMinutes: bucket.focusMinutes + (dayActivity?.focusSeconds ?? 0) / 60,
+      tasksCompleted: bucket.tasksCompleted + (dayActivity?.tasksCompleted ?? 0)
+    });
+  }
+
+  return Array.from(buckets.values());
+};
+
+/**
+ * A year of focus up to `end` as weeks of seven days (Monday first), oldest
+ * week first. Days after `end` in the last week are null.
+ */
+export const getHeatmapWeeks = (activity: Map<string, DayActivity>, end: Date): (HeatmapCell | null)[][] => {
+  const last = startOfDay(end);
+  const first = startOfWeek(addDays(last, -364), WEEK_OPTIONS);
+
+  const weeks: { day: Date; focusMinutes: number }[][] = [];
+  for (let weekStart = first; weekStart.getTime() <= last.getTime(); weekStart = addDays(weekStart, 7)) {
+    weeks.push(Array.from({ length: 7 }, (_, i) => {
+      const day = addDays(weekStart, i);
+      return { day, focusMinutes: (activity.get(dayKey(day))?.focusSeconds ?? 0) / 60 };
+    }));
+  }
+
+  const busiest = Math.max(0, ...weeks.flat().filter(cell => cell.day.getTime() <= last.getTime()).map(cell => cell.focusMinutes));
+  return weeks.map(week => week.map(cell => cell.day.getTime() > last.getTime() ? null : {
+    ...cell,
+    level: cell.focusMinutes > 0 ? Math.max(1, Math.ceil((cell.focusMinutes / busiest) * 4)) : 0
+  }));
+};
@@ -0,0 +1,87 @@
+import type { ClockCommand, ClockMessage } from './clock.worker';
+import { startTicker } from './ticker';
+
+// One clock for the whole app. A Web Worker does the ticking so countdowns
+// stay on time in background tabs; without workers it falls back to the
+// same drift-corrected ticker on the main thread.
+
+export type ClockListener = (now: Date) => void;
+
+interface Subscription {
+  interval: number;
+  listener: ClockListener;
+  lastTick: number;
+}
+
+const subscriptions = new Set<Subscription>();
+
+let worker: Worker | null | undefined; // null once workers turned out to be unavailable
+let stopFallback: (() => void) | undefined;
+let tickInterval = 0; // interval of the running ticker, 0 when stopped
+
+const dispatch = (now: number) => {
+  subscriptions.forEach(subscription => {
+    // Half a tick of slack, so a listener doesn't slip a whole tick late
+    if (now - subscription.lastTick >= subscription.interval - tickInterval / 2) {
+      subscription.lastTick = now;
+      subscription.listener(new Date(now));
+    }
+  });
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined') return (worker = null);
+
+  try {
+    worker = new Worker(new URL('./clock.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<ClockMessage>) => dispatch(event.data.now);
+    worker.onerror = () => {
+      console.warn('[timewarp] Clock worker failed, ticking on the main thread instead');
+      worker?.terminate();
+      worker = null;
+      restart();
+    };
+  } catch {
+    worker = null;
+  }
+  return worker;
+};
+
+const send = (command: ClockCommand) => getWorker()?.postMessage(command);
+
+const stopTicking = () => {
+  stopFallback?.();
+  stopFallback = undefined;
+  if (worker) send({ type: 'stop' });
+  tickInterval = 0;
+};
+
+// Tick as often as the most frequent subscriber needs
+const restart = () => {
+  const interval = Math.min(...Array.from(subscriptions, subscription => subscription.interval));
+  stopTicking();
+  if (!Number.isFinite(interval)) return;
+
+  tickInterval = interval;
+  if (getWorker()) {
+    send({ type: 'start', interval });
+  } else {
+    stopFallback = startTicker(interval, dispatch);
+  }
+};
+
+/**
+ * Call `listener` roughly every `interval` milliseconds. Returns a function
+ * that unsubscribes it.
+ */
+export const subscribeClock = (interval: number, listener: ClockListener): (() => void) => {
+  const subscription: Subscription = { interval, listener, lastTick: Date.now() };
+  subscriptions.add(subscription);
+  if (interval < tickInterval || tickInterval === 0) restart();
+
+  return () => {
+    subscriptions.delete(subscription);
+    if (subscriptions.size === 0 || interval === tickInterval) restart();
+  };
+};
@@ -0,0 +1,21 @@
+import { startTicker } from './ticker';
+
+// Runs the shared clock off the main thread, where background tabs don't
+// throttle timers nearly as hard
+
+export type ClockCommand = { type: 'start'; interval: number } | { type: 'stop' };
+export type ClockMessage = { type: 'tick'; now: number };
+
+let stop: (() => void) | undefined;
+
+self.onmessage = (event: MessageEvent<ClockCommand>) => {
+  stop?.();
+  stop = undefined;
+
+  if (event.data.type === 'start') {
+    stop = startTicker(event.data.interval, now => {
+      const message: ClockMessage = { type: 'tick', now };
+      self.postMessage(message);
+    });
+  }
+};
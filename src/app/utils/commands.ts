@@ -0,0 +1,48 @@
+// Commands for the palette and keyboard shortcuts, and the fuzzy search over them
+
+export type CommandGroup = 'Timer' | 'Tasks' | 'Go to';
+
+export interface Command {
+  id: string;
+  label: string;
+  group: CommandGroup;
+  shortcut?: string; // KeyboardEvent.key that runs it anywhere outside a text field
+  keywords?: string; // extra words to find it by
+  run: () => void;
+}
+
+/**
+ * How well `query` matches `text`, or undefined if it doesn't. Every query
+ * character has to appear in order; runs of characters and word starts
+ * score higher, as do shorter texts.
+ */
+export const fuzzyScore = (query: string, text: string): number | undefined => {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const char of needle) {
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return undefined;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s\-:"]/.test(haystack[index - 1])) score += 2;
+    previous = index;
+    from = index + 1;
+  }
+  return score - haystack.length / 100;
+};
+
+// Commands matching `query`, best first; all of them in order for an empty query
+export const searchCommands = (commands: Command[], query: string): Command[] =>
+  commands
+    .map((command, index) => {
+      const scores = [fuzzyScore(query, command.label), command.keywords && fuzzyScore(query, command.keywords)]
+        .filter((score): score is number => typeof score === 'number');
+      return { command, index, score: scores.length > 0 ? Math.max(...scores) : undefined };
+    })
+    .filter((match): match is { command: Command; index: number; score: number } => match.score !== undefined)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(match => match.command);
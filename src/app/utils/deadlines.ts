@@ -0,0 +1,111 @@
+import { addDays, formatDistanceStrict, format, startOfWeek } from 'date-fns';
+import type { Task } from '../store/useTaskStore';
+import { WEEK_OPTIONS } from './charts';
+
+// How completed tasks fared against their deadlines, and which ones are overdue
+
+export type DeadlineClass = 'early' | 'on-time' | 'near-miss' | 'late';
+
+// Finished this close to the deadline, but still before it, is a near miss
+export const NEAR_MISS_SECONDS = 10 * 60;
+// Finished at least this long before the deadline is early
+export const EARLY_SECONDS = 24 * 60 * 60;
+
+export const DEADLINE_CLASSES: Record<DeadlineClass, { label: string; className: string }> = {
+  'early': { label: 'Early', className: 'bg-success' },
+  'on-time': { label: 'On time', className: 'bg-primary' },
+  'near-miss': { label: 'Near miss', className: 'bg-accent' },
+  'late': { label: 'Late', className: 'bg-error' }
+};
+
+export interface DeadlineOutcome {
+  task: Task;
+  classification: DeadlineClass;
+  slack: number; // seconds left before the deadline on completion, negative when late
+}
+
+export interface DeadlineSummary {
+  counts: Record<DeadlineClass, number>;
+  total: number;
+  onTimeRate: number; // 0-1, everything but late
+  medianSlack: number;
+}
+
+export interface DeadlineTrendWeek {
+  start: Date;
+  label: string;
+  counts: Record<DeadlineClass, number>;
+}
+
+export interface OverdueTask {
+  task: Task;
+  overdue: number; // seconds past the deadline
+}
+
+const emptyCounts = (): Record<DeadlineClass, number> => ({ 'early': 0, 'on-time': 0, 'near-miss': 0, 'late': 0 });
+
+export const classifySlack = (slack: number): DeadlineClass => {
+  if (slack < 0) return 'late';
+  if (slack <= NEAR_MISS_SECONDS) return 'near-miss';
+  if (slack < EARLY_SECONDS) return 'on-time';
+  return 'early';
+};
+
+// Human readable slack, e.g. "3 hours early" or "2 days late"
+export const formatSlack = (slack: number) =>
+  `${formatDistanceStrict(0, Math.abs(slack) * 1000)} ${slack < 0 ? 'late' : 'early'}`;
+
+// Every completed task that had a deadline, oldest completion first
+export const getDeadlineOutcomes = (tasks: Task[]): DeadlineOutcome[] =>
+  tasks
+    .filter((task): task is Task & { deadline: Date; completedAt: Date } =>
+      task.status === 'completed' && task.deadline !== undefined && task.completedAt !== undefined
+    )
+    .sort((a, b) => a.completedAt.getTime() - b.completedAt.getTime())
+    .map(task => {
+      const slack = (task.deadline.getTime() - task.completedAt.getTime()) / 1000;
+      return { task, classification: classifySlack(slack), slack };
+    });
+
+export const summarizeDeadlines = (outcomes: DeadlineOutcome[]): DeadlineSummary | undefined => {
+  if (outcomes.length === 0) return undefined;
+
+  const counts = emptyCounts();
+  outcomes.forEach(outcome => counts[outcome.classification]++);
+  const slacks = outcomes.map(outcome => outcome.slack).sort((a, b) => a - b);
+  const middle = Math.floor(slacks.length / 2);
+
+  return {
+    counts,
+    total: outcomes.length,
+    onTimeRate: (outcomes.length - counts.late) / outcomes.length,
+    medianSlack: slacks.length % 2 === 1 ? slacks[middle] : (slacks[middle - 1] + slacks[middle]) / 2
+  };
+};
+
+/**
+ * Completions per class for each of the last `weeks` weeks (Monday first),
+ * oldest first. Weeks without deadline completions are kept.
+ */
+export const getDeadlineTrend = (outcomes: DeadlineOutcome[], weeks: number, now: Date = new Date()): DeadlineTrendWeek[] => {
+  const thisWeek = startOfWeek(now, WEEK_OPTIONS);
+  const trend = Array.from({ length: weeks }, (_, i) => {
+    const start = addDays(thisWeek, (i - weeks + 1) * 7);
+    return { start, label: `Week of ${format(start, 'MMM d')}`, counts: emptyCounts() };
+  });
+
+  outcomes.forEach(outcome => {
+    const completedAt = outcome.task.completedAt as Date;
+    const week = trend.find(w => completedAt >= w.start && completedAt < addDays(w.start, 7));
+    if (week) week.counts[outcome.classification]++;
+  });
+
+  return trend;
+};
+
+// Open tasks past their deadline, most overdue first
+export const getOverdueTasks = (tasks: Task[], now: Date = new Date()): OverdueTask[] =>
+  tasks
+    .filter(task => task.status !== 'completed' && task.deadline && task.deadline < now)
+    .map(task => ({ task, overdue: (now.getTime() - (task.deadline as Date).getTime()) / 1000 }))
+    .sort((a, b) => b.overdue - a.overdue);
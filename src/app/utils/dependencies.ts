@@ -0,0 +1,45 @@
+import type { Task } from '../store/useTaskStore';
+
+// Prerequisites of `task` that still exist and aren't completed
+export const getBlockingTasks = (task: Task, tasks: Task[]): Task[] =>
+  task.blockedBy
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is Task => t !== undefined && t.status !== 'completed');
+
+export const isTaskBlocked = (task: Task, tasks: Task[]) => getBlockingTasks(task, tasks).length > 0;
+
+/**
+ * Check whether giving `taskId` the prerequisites `blockedBy` would create a
+ * cycle. Returns the cycle as a list of task ids starting and ending with
+ * `taskId`, or null when the graph stays acyclic.
+ */
+export const findDependencyCycle = (tasks: Task[], taskId: string, blockedBy: string[]): string[] | null => {
+  const prerequisitesOf = (id: string) =>
+    id === taskId ? blockedBy : tasks.find(t => t.id === id)?.blockedBy ?? [];
+
+  const visited = new Set<string>();
+  const path: string[] = [taskId];
+
+  const visit = (id: string): boolean => {
+    if (id === taskId) return true;
+    if (visited.has(id)) return false;
+    visited.add(id);
+    path.push(id);
+    if (prerequisitesOf(id).some(visit)) return true;
+    path.pop();
+    return false;
+  };
+
+  return blockedBy.some(visit) ? [...path, taskId] : null;
+};
+
+/**
+ * Tasks that were waiting only on `completedId` and can start now that it
+ * has been completed.
+ */
+export const getNewlyUnblockedTasks = (completedId: string, tasks: Task[]): Task[] =>
+  tasks.filter(task =>
+    task.status !== 'completed' &&
+    task.blockedBy.includes(completedId) &&
+    !isTaskBlocked(task, tasks)
+  );
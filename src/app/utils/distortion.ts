@@ -0,0 +1,64 @@
+// Distortion profiles: curves that map the distortion level to how fast the countdown runs
+
+export interface DistortionProfile {
+  id: string;
+  name: string;
+  rates: number[]; // countdown rate at each of CURVE_LEVELS, 1 is real time
+}
+
+// Distortion moves in steps of 10, so a curve is defined at every step
+export const CURVE_LEVELS = Array.from({ length: 11 }, (_, i) => i * 10);
+
+export const MIN_RATE = -5;
+export const MAX_RATE = 5;
+
+// The original ladder: slightly slower at low levels, up to 5x faster, and backwards at the very top
+const classicRate = (level: number): number => {
+  if (level < 30) return 0.5 + level / 60; // 0.5x - 1x
+  if (level < 60) return 1 + (level - 30) / 30; // 1x - 2x
+  if (level < 80) return 2 + (level - 60) / 20; // 2x - 3x
+  if (level < 95) return 3 + (level - 80) / 7.5; // 3x - 5x
+  return -1; // time flows backward!
+};
+
+export const CLASSIC_PROFILE: DistortionProfile = {
+  id: 'classic',
+  name: 'Classic',
+  rates: CURVE_LEVELS.map(classicRate)
+};
+
+export const DISTORTION_PRESETS: DistortionProfile[] = [
+  CLASSIC_PROFILE,
+  {
+    id: 'slow-motion',
+    name: 'Slow-motion only',
+    rates: CURVE_LEVELS.map(level => 1 - level * 0.009) // 1x down to 0.1x
+  },
+  {
+    id: 'chaos',
+    name: 'Chaos',
+    rates: [1, 2.5, 0.3, 4, -1, 1.5, -2.5, 5, 0.1, -4, 3]
+  }
+];
+
+export const isPresetProfile = (id: string) => DISTORTION_PRESETS.some(preset => preset.id === id);
+
+// Presets first, then the user's own curves
+export const getDistortionProfiles = (custom: DistortionProfile[]) => [...DISTORTION_PRESETS, ...custom];
+
+// The profile with `id`, or the classic one if it no longer exists
+export const findDistortionProfile = (custom: DistortionProfile[], id: string): DistortionProfile =>
+  getDistortionProfiles(custom).find(profile => profile.id === id) ?? CLASSIC_PROFILE;
+
+export const clampRate = (rate: number) => Math.min(MAX_RATE, Math.max(MIN_RATE, rate));
+
+// Countdown rate at `level`, interpolated between the curve's points
+export const curveRate = (rates: number[], level: number): number => {
+  const position = (Math.min(100, Math.max(0, level)) / 100) * (rates.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(rates.length - 1, below + 1);
+  return rates[below] + (rates[above] - rates[below]) * (position - below);
+};
+
+// "2.5x", "0.3x", "-1x"
+export const formatRate = (rate: number) => `${Number(rate.toFixed(2))}x`;
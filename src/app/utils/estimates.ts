@@ -0,0 +1,96 @@
+import type { Task } from '../store/useTaskStore';
+
+// Estimated vs actual time on tasks
+
+// Finishing within this share of the estimate, either way, is on target
+export const ON_TARGET_MARGIN = 0.2;
+
+const WORST_OFFENDERS = 3;
+
+// 'optimistic' tasks take longer than estimated, 'pessimistic' ones less
+export type EstimationBias = 'optimistic' | 'accurate' | 'pessimistic';
+
+export interface EstimateOutcome {
+  task: Task & { estimate: number };
+  overrun: number; // (actual - estimate) / estimate, 0.5 is 50% over
+}
+
+export interface ImportanceAccuracy {
+  importance: number;
+  count: number;
+  medianOverrun: number;
+  onTargetRate: number; // 0-1
+}
+
+export interface EstimationReport {
+  count: number; // completed tasks with an estimate
+  medianOverrun: number;
+  onTargetRate: number;
+  bias: EstimationBias;
+  byImportance: ImportanceAccuracy[]; // most important first, levels without estimates left out
+  worstOffenders: EstimateOutcome[]; // biggest overruns first, on-target tasks left out
+}
+
+export const hasEstimate = (task: Task): task is Task & { estimate: number } =>
+  task.estimate !== undefined && task.estimate > 0;
+
+export const getOverrun = (task: Task & { estimate: number }) => (task.timeSpent - task.estimate) / task.estimate;
+
+export const isOnTarget = (overrun: number) => Math.abs(overrun) <= ON_TARGET_MARGIN;
+
+export const formatOverrun = (overrun: number) =>
+  `${Math.round(Math.abs(overrun) * 100)}% ${overrun < 0 ? 'under' : 'over'}`;
+
+export const formatEstimate = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  if (hours === 0) return `${minutes}m`;
+  return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const onTargetRate = (overruns: number[]) => overruns.filter(isOnTarget).length / overruns.length;
+
+/**
+ * How completed tasks fared against their estimates, or undefined before any
+ * estimated task was completed. Open tasks are left out, their actual time
+ * isn't known yet.
+ */
+export const getEstimationReport = (tasks: Task[]): EstimationReport | undefined => {
+  const outcomes: EstimateOutcome[] = tasks
+    .filter(task => task.status === 'completed')
+    .filter(hasEstimate)
+    .map(task => ({ task, overrun: getOverrun(task) }));
+  if (outcomes.length === 0) return undefined;
+
+  const overruns = outcomes.map(outcome => outcome.overrun);
+  const medianOverrun = median(overruns);
+
+  const byImportance = [5, 4, 3, 2, 1].flatMap(importance => {
+    const levelOverruns = outcomes.filter(outcome => outcome.task.importance === importance).map(outcome => outcome.overrun);
+    if (levelOverruns.length === 0) return [];
+    return [{
+      importance,
+      count: levelOverruns.length,
+      medianOverrun: median(levelOverruns),
+      onTargetRate: onTargetRate(levelOverruns)
+    }];
+  });
+
+  return {
+    count: outcomes.length,
+    medianOverrun,
+    onTargetRate: onTargetRate(overruns),
+    bias: isOnTarget(medianOverrun) ? 'accurate' : medianOverrun > 0 ? 'optimistic' : 'pessimistic',
+    byImportance,
+    worstOffenders: outcomes
+      .filter(outcome => outcome.overrun > ON_TARGET_MARGIN)
+      .sort((a, b) => b.overrun - a.overrun)
+      .slice(0, WORST_OFFENDERS)
+  };
+};
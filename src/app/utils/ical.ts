@@ -0,0 +1,254 @@
+import type { Task, FocusSession } from '../store/useTaskStore';
+import { recurrenceToRRule } from './recurrence';
+
+// RFC 5545 iCalendar generation and (VTODO-only) parsing
+
+const PRODUCT_ID = '-//TimeWarp Focus//Productivity Distorted//EN';
+const UID_DOMAIN = 'timewarp-focus';
+const MAX_LINE_OCTETS = 75;
+
+export interface ImportedTodo {
+  uid?: string;
+  title: string;
+  description: string;
+  importance: number;
+  deadline?: Date;
+}
+
+export interface ICalImportResult {
+  todos: ImportedTodo[];
+  skipped: number; // completed or cancelled entries
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 20250316T091500Z
+const formatDateTime = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+// 20250316T101500, floating: the same wall-clock time wherever it is read
+const formatLocalDateTime = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+  `T${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+
+// Start of the local day `deadline` falls on. Recurrence picks weekdays and
+// days of the month in local time, so an RRULE anchored here repeats on the
+// same days as the app does. RFC 5545 wants DUE strictly after DTSTART, so
+// a deadline at midnight starts the day before
+const instanceStart = (deadline: Date) => {
+  const start = new Date(deadline.getFullYear(), deadline.getMonth(), deadline.getDate());
+  return start < deadline ? start : new Date(deadline.getFullYear(), deadline.getMonth(), deadline.getDate() - 1);
+};
+
+const escapeText = (text: string) =>
+  text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Fold lines longer than 75 octets without splitting multi-byte characters
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+// importance 5 (critical) -> PRIORITY 1 (highest), importance 1 -> PRIORITY 9
+export const importanceToPriority = (importance: number) =>
+  Math.min(9, Math.max(1, 11 - Math.round(importance) * 2));
+
+export const priorityToImportance = (priority: number) => {
+  if (!priority) return 3; // 0 means undefined priority
+  return Math.min(5, Math.max(1, Math.round((11 - priority) / 2)));
+};
+
+const todoStatus = (task: Task) => {
+  switch (task.status) {
+    case 'completed':
+      return 'COMPLETED';
+    case 'in-progress':
+      return 'IN-PROCESS';
+    default:
+      return 'NEEDS-ACTION';
+  }
+};
+
+const taskToVTodo = (task: Task, stamp: string): string[] => {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+    `PRIORITY:${importanceToPriority(task.importance)}`,
+    `STATUS:${todoStatus(task)}`
+  ];
+  if (task.description) lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  // Only the open instance of a series carries the repeat rule, in floating
+  // local time so its weekdays and days of the month match the app's
+  if (task.recurrence && task.deadline && task.status !== 'completed') {
+    lines.push(`DTSTART:${formatLocalDateTime(instanceStart(task.deadline))}`);
+    lines.push(`DUE:${formatLocalDateTime(task.deadline)}`);
+    lines.push(`RRULE:${recurrenceToRRule(task.recurrence)}`);
+  } else if (task.deadline) {
+    lines.push(`DUE:${formatDateTime(task.deadline)}`);
+  }
+  if (task.completedAt) lines.push(`COMPLETED:${formatDateTime(task.completedAt)}`);
+  if (task.status === 'running-away') lines.push('CATEGORIES:RUNNING-AWAY');
+  lines.push('END:VTODO');
+  return lines;
+};
+
+const sessionToVEvent = (session: FocusSession, task: Task | undefined, stamp: string): string[] => [
+  'BEGIN:VEVENT',
+  `UID:${session.id}@${UID_DOMAIN}`,
+  `DTSTAMP:${stamp}`,
+  `DTSTART:${formatDateTime(session.startTime)}`,
+  `DTEND:${formatDateTime(session.endTime as Date)}`,
+  `SUMMARY:${escapeText(`Focus: ${task ? task.title : 'Unknown task'}`)}`,
+  `DESCRIPTION:${escapeText(`Focused for ${Math.round(session.duration / 60)} minutes at ${session.distortionLevel}% time distortion.`)}`,
+  'TRANSP:OPAQUE',
+  'END:VEVENT'
+];
+
+/**
+ * Build a calendar with a VTODO for every task and a VEVENT for every
+ * finished focus session.
+ */
+export const generateICalendar = (tasks: Task[], focusSessions: FocusSession[]): string => {
+  const stamp = formatDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:TimeWarp Focus',
+    ...tasks.flatMap(task => taskToVTodo(task, stamp)),
+    ...focusSessions
+      .filter(session => session.endTime)
+      .flatMap(session => sessionToVEvent(session, tasks.find(t => t.id === session.taskId), stamp)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const parseContentLine = (line: string): ContentLine | null => {
+  // The value starts at the first colon that is not inside a quoted parameter
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colonIndex = i;
+      break;
+    }
+  }
+  if (colonIndex === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colonIndex).split(';');
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+
+  return { name: name.toUpperCase(), params, value: line.slice(colonIndex + 1) };
+};
+
+// Accepts DATE (20250316), floating/TZID DATE-TIME and UTC DATE-TIME values
+const parseDateValue = (value: string): Date | undefined => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = '59', utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  // Date-only and floating values are interpreted in the user's local time
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+};
+
+/**
+ * Extract the open VTODO entries from an .ics file so they can be fed to
+ * `addTask`. Completed and cancelled entries are counted but not returned.
+ */
+export const parseICalendarTodos = (text: string): ICalImportResult => {
+  const lines = text
+    .replace(/\r?\n[ \t]/g, '') // unfold
+    .split(/\r?\n/)
+    .filter(Boolean);
+
+  const todos: ImportedTodo[] = [];
+  let skipped = 0;
+  let current: Record<string, ContentLine> | null = null;
+  let depth = 0; // nested components (e.g. VALARM) inside the current VTODO
+
+  lines.forEach(raw => {
+    const line = parseContentLine(raw);
+    if (!line) return;
+
+    if (line.name === 'BEGIN') {
+      if (current) depth++;
+      else if (line.value.toUpperCase() === 'VTODO') current = {};
+      return;
+    }
+
+    if (line.name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && line.value.toUpperCase() === 'VTODO') {
+        const status = current.STATUS?.value.toUpperCase();
+        if (status === 'COMPLETED' || status === 'CANCELLED') {
+          skipped++;
+        } else {
+          todos.push({
+            uid: current.UID?.value,
+            title: current.SUMMARY ? unescapeText(current.SUMMARY.value) : 'Untitled task',
+            description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION.value) : '',
+            importance: priorityToImportance(Number(current.PRIORITY?.value) || 0),
+            deadline: current.DUE ? parseDateValue(current.DUE.value) : undefined
+          });
+        }
+        current = null;
+      }
+      return;
+    }
+
+    if (current && depth === 0) {
+      current[line.name] = line;
+    }
+  });
+
+  return { todos, skipped };
+};
+
+// Task id encoded in a UID generated by this app, if any
+export const taskIdFromUid = (uid?: string) =>
+  uid?.endsWith(`@${UID_DOMAIN}`) ? uid.slice(0, -UID_DOMAIN.length - 1) : undefined;
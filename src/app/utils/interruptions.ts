@@ -0,0 +1,34 @@
+import type { FocusSession, InterruptionSource } from '../store/useTaskStore';
+
+export const INTERRUPTION_SOURCES: Record<InterruptionSource, { label: string; emoji: string }> = {
+  'self': { label: 'Myself', emoji: '🤦' },
+  'colleague': { label: 'Colleague', emoji: '🗣️' },
+  'meeting': { label: 'Meeting', emoji: '📅' },
+  'notification': { label: 'Notification', emoji: '🔔' }
+};
+
+export interface InterruptionCount {
+  source: InterruptionSource;
+  count: number;
+}
+
+const countInterruptions = (focusSessions: FocusSession[]) =>
+  focusSessions.reduce((total, session) => total + session.interruptions.length, 0);
+
+// Interruptions per hour of real focus time, or undefined before any focus was logged
+export const interruptionsPerHour = (focusSessions: FocusSession[]) => {
+  const hours = focusSessions.reduce((total, session) => total + session.duration, 0) / 3600;
+  if (hours === 0) return undefined;
+  return countInterruptions(focusSessions) / hours;
+};
+
+// Sources that interrupted at least once, most frequent first
+export const getTopInterruptionSources = (focusSessions: FocusSession[]): InterruptionCount[] => {
+  const counts = new Map<InterruptionSource, number>();
+  focusSessions.forEach(session => session.interruptions.forEach(interruption => {
+    counts.set(interruption.source, (counts.get(interruption.source) ?? 0) + 1);
+  }));
+
+  return Array.from(counts, ([source, count]) => ({ source, count }))
+    .sort((a, b) => b.count - a.count);
+};
@@ -0,0 +1,12 @@
+// Keyboard helpers shared by the global shortcut handlers
+
+// Keep native keys (undo, space, digits) inside form fields
+export const isEditingText = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Ctrl on most keyboards, Cmd on Apple ones
+export const MOD_KEY = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform) ? '⌘' : 'Ctrl';
+
+// How a KeyboardEvent.key is printed on a keycap
+export const formatKey = (key: string) => key === ' ' ? 'Space' : key.length === 1 ? key.toUpperCase() : key;
@@ -0,0 +1,326 @@
+import type { FocusSession, ProductivityStats, Task } from '../store/useTaskStore';
+import { getPomodorosOnDay } from './pomodoro';
+import { warpedSeconds } from './sessions';
+import { getTopInterruptionSources, interruptionsPerHour } from './interruptions';
+import { averageFocusRating, intentionSuccessRate } from './reflection';
+import { getEstimationReport } from './estimates';
+import { getDeadlineOutcomes, getOverdueTasks, summarizeDeadlines } from './deadlines';
+import supportBot from '../personalities/supportbot.json';
+import sarcastiBot from '../personalities/sarcastibot.json';
+import chaosAnalyzer from '../personalities/chaos-analyzer.json';
+
+// AI personalities: JSON packs of templated messages, picked by conditions over the stats
+
+export const PERSONALITY_FORMAT = 'timewarp-personality';
+
+// Stored instead of a pack id to get a different personality every time
+export const RANDOM_PERSONALITY = 'random';
+
+// Recently shown messages, across all packs, that won't be picked again while others qualify
+export const PERSONALITY_MEMORY_SIZE = 40;
+
+// What a condition or a placeholder can refer to
+export const PERSONALITY_METRICS = {
+  totalTasks: 'Tasks of any status',
+  completedTasks: 'Completed tasks',
+  pendingTasks: 'Pending and in-progress tasks',
+  runawayTasks: 'Tasks that ran away',
+  overdueTasks: 'Open tasks past their deadline',
+  completionRate: 'Completed tasks, % of all tasks',
+  procrastinationRate: 'Runaway tasks, % of all tasks',
+  focusMinutes: 'Total focus time in minutes',
+  focusHours: 'Total focus time in hours',
+  focusSessions: 'Focus sessions',
+  averageSessionMinutes: 'Average focus session in minutes',
+  warpedMinutes: 'Perceived minus real focus time in minutes',
+  pomodorosToday: 'Focus intervals finished today',
+  interruptionsPerHour: 'Interruptions per hour of focus',
+  topInterruption: 'Most frequent interruption: self, colleague, meeting or notification',
+  currentStreak: 'Current daily streak',
+  longestStreak: 'Longest daily streak',
+  estimatedTasks: 'Completed tasks with an estimate',
+  estimateOverrun: 'Median time over estimate, % (negative when under)',
+  estimateBias: 'optimistic, accurate or pessimistic',
+  deadlineTasks: 'Completed tasks that had a deadline',
+  onTimeRate: 'Deadlines met, %',
+  lateTasks: 'Tasks completed after their deadline',
+  nearMisses: 'Tasks completed within minutes of their deadline',
+  intentionRate: 'Session intentions met, %',
+  averageRating: 'Average self-rated focus, 1-5'
+} as const;
+
+export type MetricName = keyof typeof PERSONALITY_METRICS;
+
+// A metric is undefined until there is data for it; conditions on it then fail
+export type PersonalityMetrics = Record<MetricName, number | string | undefined>;
+
+export const CONDITION_OPERATORS = ['<', '<=', '>', '>=', '==', '!='] as const;
+
+export interface MetricCondition {
+  metric: MetricName;
+  op: typeof CONDITION_OPERATORS[number];
+  value: number | string;
+}
+
+export interface PersonalityMessage {
+  id: string; // unique within the pack, remembered so it isn't repeated
+  topic: string; // at most one message per topic is shown
+  text: string; // "{metric}", "{metric:1}" for decimals, "{metric|one|other}" for plurals
+  when?: MetricCondition[]; // all must hold
+  weight?: number; // odds against the other candidates of the topic, 1 by default
+}
+
+// Theme colors, spelled out so the styles are generated
+export const PERSONALITY_COLORS = {
+  'primary': { text: 'text-primary', border: 'border-primary/20' },
+  'secondary': { text: 'text-secondary', border: 'border-secondary/20' },
+  'accent': { text: 'text-accent', border: 'border-accent/20' },
+  'success': { text: 'text-success', border: 'border-success/20' },
+  'error': { text: 'text-error', border: 'border-error/20' },
+  'time-warp': { text: 'text-time-warp', border: 'border-time-warp/20' }
+};
+
+export interface PersonalityPack {
+  format: typeof PERSONALITY_FORMAT;
+  id: string;
+  name: string;
+  emoji: string;
+  color: keyof typeof PERSONALITY_COLORS;
+  greeting: string;
+  messages: PersonalityMessage[]; // topics are shown in order of first appearance
+}
+
+export interface CommentaryLine {
+  topic: string;
+  key: string; // pack and message id, as remembered
+  text: string;
+}
+
+export class PersonalityPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonalityPackError';
+  }
+}
+
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+const PLACEHOLDER_PATTERN = /\{(\w+)(?::(\d)|\|([^|}]*)\|([^|}]*))?\}/g;
+const MAX_REPORTED_PROBLEMS = 3;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isMetricName = (name: unknown): name is MetricName =>
+  typeof name === 'string' && Object.prototype.hasOwnProperty.call(PERSONALITY_METRICS, name);
+
+const validateCondition = (condition: unknown): string | undefined => {
+  if (!isRecord(condition)) return 'conditions must be objects';
+  if (!isMetricName(condition.metric)) return `unknown metric "${String(condition.metric)}"`;
+  if (!CONDITION_OPERATORS.includes(condition.op as MetricCondition['op'])) return `unknown operator "${String(condition.op)}"`;
+  if (typeof condition.value === 'string') {
+    if (condition.op !== '==' && condition.op !== '!=') return `"${condition.op}" needs a number`;
+  } else if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+    return 'condition values must be numbers or text';
+  }
+  return undefined;
+};
+
+const validateMessage = (message: unknown, seenIds: Set<string>): string[] => {
+  if (!isRecord(message)) return ['must be an object'];
+  const problems: string[] = [];
+  if (typeof message.id !== 'string' || !message.id) problems.push('missing id');
+  else if (seenIds.has(message.id)) problems.push(`id "${message.id}" is used twice`);
+  else seenIds.add(message.id);
+  if (typeof message.topic !== 'string' || !message.topic) problems.push('missing topic');
+  if (typeof message.text !== 'string' || !message.text) {
+    problems.push('missing text');
+  } else {
+    Array.from(message.text.matchAll(PLACEHOLDER_PATTERN), match => match[1])
+      .filter(name => !isMetricName(name))
+      .forEach(name => problems.push(`unknown placeholder "{${name}}"`));
+  }
+  if (message.when !== undefined) {
+    if (!Array.isArray(message.when)) problems.push('"when" must be a list of conditions');
+    else message.when.forEach(condition => {
+      const problem = validateCondition(condition);
+      if (problem) problems.push(problem);
+    });
+  }
+  if (message.weight !== undefined && !(typeof message.weight === 'number' && message.weight > 0 && Number.isFinite(message.weight))) {
+    problems.push('weight must be a positive number');
+  }
+  return problems;
+};
+
+/**
+ * Check that `raw` is a usable personality pack. Every problem found is
+ * reported in the error, up to a few, so authors can fix them in one go.
+ */
+export const validatePersonalityPack = (raw: unknown): PersonalityPack => {
+  if (!isRecord(raw) || raw.format !== PERSONALITY_FORMAT) {
+    throw new PersonalityPackError(`Not a personality pack: "format" must be "${PERSONALITY_FORMAT}".`);
+  }
+
+  const problems: string[] = [];
+  if (typeof raw.id !== 'string' || !ID_PATTERN.test(raw.id)) problems.push('id must be lowercase letters, digits and dashes');
+  else if (raw.id === RANDOM_PERSONALITY) problems.push(`id "${RANDOM_PERSONALITY}" is reserved`);
+  if (typeof raw.name !== 'string' || !raw.name.trim()) problems.push('name must be text');
+  if (typeof raw.emoji !== 'string' || !raw.emoji) problems.push('emoji must be text');
+  if (typeof raw.color !== 'string' || !Object.prototype.hasOwnProperty.call(PERSONALITY_COLORS, raw.color)) {
+    problems.push(`color must be one of ${Object.keys(PERSONALITY_COLORS).join(', ')}`);
+  }
+  if (typeof raw.greeting !== 'string') problems.push('greeting must be text');
+  if (!Array.isArray(raw.messages) || raw.messages.length === 0) {
+    problems.push('messages must be a non-empty list');
+  } else {
+    const seenIds = new Set<string>();
+    raw.messages.forEach((message, i) => {
+      const label = isRecord(message) && typeof message.id === 'string' ? `message ${i + 1} ("${message.id}")` : `message ${i + 1}`;
+      validateMessage(message, seenIds).forEach(problem => problems.push(`${label}: ${problem}`));
+    });
+  }
+
+  if (problems.length > 0) {
+    const more = problems.length > MAX_REPORTED_PROBLEMS ? ` (and ${problems.length - MAX_REPORTED_PROBLEMS} more)` : '';
+    throw new PersonalityPackError(`The pack has problems: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}${more}.`);
+  }
+  return raw as unknown as PersonalityPack;
+};
+
+export const parsePersonalityPack = (text: string): PersonalityPack => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new PersonalityPackError('The file is not valid JSON.');
+  }
+  return validatePersonalityPack(raw);
+};
+
+export const serializePersonalityPack = (pack: PersonalityPack) => JSON.stringify(pack, null, 2);
+
+export const BUILTIN_PERSONALITIES: PersonalityPack[] = [supportBot, sarcastiBot, chaosAnalyzer].map(validatePersonalityPack);
+
+export const isBuiltinPersonality = (id: string) => BUILTIN_PERSONALITIES.some(pack => pack.id === id);
+
+// Built-in packs first, then imported ones
+export const getPersonalityPacks = (custom: PersonalityPack[]) => [...BUILTIN_PERSONALITIES, ...custom];
+
+// The pack with `id`, or a random one for RANDOM_PERSONALITY or a pack that no longer exists
+export const choosePersonality = (custom: PersonalityPack[], id: string, random: () => number = Math.random): PersonalityPack => {
+  const packs = getPersonalityPacks(custom);
+  return packs.find(pack => pack.id === id) ?? packs[Math.floor(random() * packs.length)];
+};
+
+export const getPersonalityMetrics = (
+  tasks: Task[],
+  focusSessions: FocusSession[],
+  productivityStats: ProductivityStats,
+  now: Date = new Date()
+): PersonalityMetrics => {
+  const totalTasks = tasks.length;
+  const completedTasks = tasks.filter(t => t.status === 'completed').length;
+  const runawayTasks = tasks.filter(t => t.status === 'running-away').length;
+  const focusSeconds = focusSessions.reduce((total, session) => total + session.duration, 0);
+  const estimation = getEstimationReport(tasks);
+  const deadlines = summarizeDeadlines(getDeadlineOutcomes(tasks));
+  const intentionRate = intentionSuccessRate(focusSessions);
+  const percent = (share: number | undefined) => share === undefined ? undefined : share * 100;
+
+  return {
+    totalTasks,
+    completedTasks,
+    pendingTasks: tasks.filter(t => t.status === 'pending' || t.status === 'in-progress').length,
+    runawayTasks,
+    overdueTasks: getOverdueTasks(tasks, now).length,
+    completionRate: totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0,
+    procrastinationRate: totalTasks > 0 ? (runawayTasks / totalTasks) * 100 : 0,
+    focusMinutes: focusSeconds / 60,
+    focusHours: focusSeconds / 3600,
+    focusSessions: focusSessions.length,
+    averageSessionMinutes: focusSessions.length > 0 ? focusSeconds / focusSessions.length / 60 : undefined,
+    warpedMinutes: focusSessions.reduce((total, session) => total + warpedSeconds(session), 0) / 60,
+    pomodorosToday: getPomodorosOnDay(productivityStats, now),
+    interruptionsPerHour: interruptionsPerHour(focusSessions),
+    topInterruption: getTopInterruptionSources(focusSessions)[0]?.source,
+    currentStreak: productivityStats.currentStreak,
+    longestStreak: productivityStats.longestStreak,
+    estimatedTasks: estimation?.count ?? 0,
+    estimateOverrun: percent(estimation?.medianOverrun),
+    estimateBias: estimation?.bias,
+    deadlineTasks: deadlines?.total ?? 0,
+    onTimeRate: percent(deadlines?.onTimeRate),
+    lateTasks: deadlines?.counts.late ?? 0,
+    nearMisses: deadlines?.counts['near-miss'] ?? 0,
+    intentionRate: percent(intentionRate),
+    averageRating: averageFocusRating(focusSessions)
+  };
+};
+
+const meetsCondition = (metrics: PersonalityMetrics, { metric, op, value }: MetricCondition) => {
+  const actual = metrics[metric];
+  if (actual === undefined) return false;
+  switch (op) {
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+  }
+  if (typeof actual !== 'number' || typeof value !== 'number') return false;
+  switch (op) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+  }
+};
+
+// The message text with its placeholders filled in, or undefined if a metric has no value yet
+export const interpolateMessage = (text: string, metrics: PersonalityMetrics): string | undefined => {
+  let isComplete = true;
+  const filled = text.replace(PLACEHOLDER_PATTERN, (_, name: MetricName, decimals?: string, one?: string, other?: string) => {
+    const value = metrics[name];
+    if (value === undefined) {
+      isComplete = false;
+      return '';
+    }
+    if (typeof value === 'string') return value;
+    if (one !== undefined) return Math.round(value) === 1 ? one : other ?? '';
+    return decimals ? value.toFixed(Number(decimals)) : String(Math.round(value));
+  });
+  return isComplete ? filled : undefined;
+};
+
+const pickWeighted = <T extends { weight?: number }>(candidates: T[], random: () => number): T => {
+  const total = candidates.reduce((sum, candidate) => sum + (candidate.weight ?? 1), 0);
+  let roll = random() * total;
+  return candidates.find(candidate => (roll -= candidate.weight ?? 1) < 0) ?? candidates[candidates.length - 1];
+};
+
+/**
+ * One message per topic whose conditions hold, picked by weight. Messages in
+ * `memory` (oldest first) are only reused when nothing else qualifies, and
+ * then the one shown longest ago.
+ */
+export const pickCommentary = (
+  pack: PersonalityPack,
+  metrics: PersonalityMetrics,
+  memory: string[],
+  random: () => number = Math.random
+): CommentaryLine[] => {
+  const topics = Array.from(new Set(pack.messages.map(message => message.topic)));
+
+  return topics.flatMap(topic => {
+    const candidates = pack.messages
+      .filter(message => message.topic === topic && (message.when ?? []).every(condition => meetsCondition(metrics, condition)))
+      .flatMap(message => {
+        const text = interpolateMessage(message.text, metrics);
+        return text === undefined ? [] : [{ ...message, key: `${pack.id}/${message.id}`, text }];
+      });
+    if (candidates.length === 0) return [];
+
+    const fresh = candidates.filter(candidate => !memory.includes(candidate.key));
+    const picked = fresh.length > 0
+      ? pickWeighted(fresh, random)
+      : candidates.reduce((oldest, candidate) => memory.indexOf(candidate.key) < memory.indexOf(oldest.key) ? candidate : oldest);
+    return [{ topic, key: picked.key, text: picked.text }];
+  });
+};
@@ -0,0 +1,68 @@
+import { format } from 'date-fns';
+import type { BreakSession, FocusSession, ProductivityStats } from '../store/useTaskStore';
+import type { FocusTimerState, IntervalKind } from './timer';
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // work intervals per cycle
+  autoAdvance: boolean; // start the next interval without asking
+}
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4,
+  autoAdvance: false
+};
+
+/**
+ * Auto-advance only chains into the next interval when the previous one
+ * ended less than this long ago, so reopening the app after hours doesn't
+ * log a day's worth of imaginary pomodoros.
+ */
+export const AUTO_ADVANCE_WINDOW = 60 * 1000;
+
+export const INTERVAL_LABELS: Record<IntervalKind, string> = {
+  'work': 'Focus',
+  'short-break': 'Short Break',
+  'long-break': 'Long Break'
+};
+
+export type BreakKind = Exclude<IntervalKind, 'work'>;
+
+export const isBreak = (kind: IntervalKind): kind is BreakKind => kind !== 'work';
+
+export const intervalDuration = (kind: IntervalKind, settings: PomodoroSettings): number => {
+  switch (kind) {
+    case 'work':
+      return settings.workMinutes * 60;
+    case 'short-break':
+      return settings.shortBreakMinutes * 60;
+    case 'long-break':
+      return settings.longBreakMinutes * 60;
+  }
+};
+
+// What follows the interval the timer is on (or just finished)
+export const nextIntervalKind = (timer: FocusTimerState, settings: PomodoroSettings): IntervalKind => {
+  if (isBreak(timer.kind)) return 'work';
+  // A finished work interval is already counted in `completedWork`
+  const workDone = timer.phase === 'completed' ? timer.completedWork : timer.completedWork + 1;
+  return workDone >= settings.longBreakEvery ? 'long-break' : 'short-break';
+};
+
+// Local calendar day, used as the key for per-day counters
+export const dayKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const getPomodorosOnDay = (stats: ProductivityStats, day: Date = new Date()) =>
+  stats.pomodorosByDay[dayKey(day)] ?? 0;
+
+// Seconds of focus per second of break, or undefined without any breaks
+export const focusBreakRatio = (focusSessions: FocusSession[], breakSessions: BreakSession[]) => {
+  const breakTime = breakSessions.reduce((total, session) => total + session.duration, 0);
+  if (breakTime === 0) return undefined;
+  return focusSessions.reduce((total, session) => total + session.duration, 0) / breakTime;
+};
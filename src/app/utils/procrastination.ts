@@ -0,0 +1,128 @@
+import type { Task } from '../store/useTaskStore';
+import { progressDampening } from './subtasks';
+import { isTaskBlocked } from './dependencies';
+
+const HOUR = 60 * 60 * 1000;
+
+export interface ProcrastinationRules {
+  graceHours: number; // untouched time that doesn't count yet
+  pointsPerIdleDay: number; // growth for an importance 3 task without a deadline
+  importanceWeight: number; // growth change per importance level away from 3
+  deadlineWindowHours: number; // growth speeds up inside this window before the deadline
+  deadlineMultiplier: number; // growth multiplier right at the deadline
+  overdueMultiplier: number; // growth multiplier once the deadline has passed
+  focusReliefPerMinute: number; // points removed per minute of logged focus
+  runAwayThreshold: number; // tasks reaching this level run away
+  stepHours: number; // integration step, deadline proximity is sampled once per step
+  maxCatchUpDays: number; // how far back a catch-up after the app was closed reaches
+}
+
+export const DEFAULT_PROCRASTINATION_RULES: ProcrastinationRules = {
+  graceHours: 24,
+  pointsPerIdleDay: 10,
+  importanceWeight: 0.25,
+  deadlineWindowHours: 72,
+  deadlineMultiplier: 3,
+  overdueMultiplier: 4,
+  focusReliefPerMinute: 1,
+  runAwayThreshold: 100,
+  stepHours: 1,
+  maxCatchUpDays: 30
+};
+
+export interface ProcrastinationAdvance {
+  levels: Record<string, number>; // new level of every task that changed
+  runaways: string[]; // tasks that crossed the threshold during the interval
+}
+
+// When the task was last touched, which is when avoiding it started
+export const idleSince = (task: Task): Date => task.lastWorkedOn ?? task.createdAt;
+
+// Only open tasks that could be worked on right now can be avoided
+const canProcrastinate = (task: Task, tasks: Task[]) =>
+  (task.status === 'pending' || task.status === 'in-progress') && !isTaskBlocked(task, tasks);
+
+const deadlineFactor = (task: Task, at: number, rules: ProcrastinationRules) => {
+  if (!task.deadline) return 1;
+  const hoursLeft = (task.deadline.getTime() - at) / HOUR;
+  if (hoursLeft <= 0) return rules.overdueMultiplier;
+  if (hoursLeft >= rules.deadlineWindowHours) return 1;
+  return 1 + (rules.deadlineMultiplier - 1) * (1 - hoursLeft / rules.deadlineWindowHours);
+};
+
+// Points per hour a task gains while avoided at time `at`
+export const procrastinationRate = (
+  task: Task,
+  at: Date,
+  rules: ProcrastinationRules = DEFAULT_PROCRASTINATION_RULES
+): number => {
+  const importanceFactor = Math.max(0, 1 + (task.importance - 3) * rules.importanceWeight);
+  return (rules.pointsPerIdleDay / 24) *
+    importanceFactor *
+    deadlineFactor(task, at.getTime(), rules) *
+    progressDampening(task);
+};
+
+/**
+ * Points a task gains between `from` and `to`. Time inside the grace period
+ * after it was last touched doesn't count, and the rate is sampled in the
+ * middle of every step so an approaching deadline is picked up during a
+ * long catch-up.
+ */
+export const procrastinationDrift = (
+  task: Task,
+  from: Date,
+  to: Date,
+  rules: ProcrastinationRules = DEFAULT_PROCRASTINATION_RULES
+): number => {
+  const graceEnd = idleSince(task).getTime() + rules.graceHours * HOUR;
+  const earliest = to.getTime() - rules.maxCatchUpDays * 24 * HOUR;
+  const start = Math.max(from.getTime(), graceEnd, earliest);
+  const end = to.getTime();
+  const step = rules.stepHours * HOUR;
+
+  let drift = 0;
+  for (let sliceStart = start; sliceStart < end; sliceStart += step) {
+    const sliceEnd = Math.min(end, sliceStart + step);
+    const midpoint = new Date((sliceStart + sliceEnd) / 2);
+    drift += procrastinationRate(task, midpoint, rules) * ((sliceEnd - sliceStart) / HOUR);
+  }
+  return drift;
+};
+
+// Points a focus session of `duration` seconds takes off
+export const focusRelief = (duration: number, rules: ProcrastinationRules = DEFAULT_PROCRASTINATION_RULES) =>
+  (duration / 60) * rules.focusReliefPerMinute;
+
+/**
+ * Advance every task's procrastination level from `from` to `to`. Pure, so
+ * it can be driven by a fake clock. `activeTaskId` is being focused on and
+ * doesn't drift. A task only counts as a runaway when it crosses the
+ * threshold during this interval, so one that was brought back stays back.
+ */
+export const advanceProcrastination = (
+  tasks: Task[],
+  from: Date,
+  to: Date,
+  rules: ProcrastinationRules = DEFAULT_PROCRASTINATION_RULES,
+  activeTaskId?: string
+): ProcrastinationAdvance => {
+  const levels: Record<string, number> = {};
+  const runaways: string[] = [];
+  if (to.getTime() <= from.getTime()) return { levels, runaways };
+
+  tasks.forEach(task => {
+    if (task.id === activeTaskId || !canProcrastinate(task, tasks)) return;
+
+    const drift = procrastinationDrift(task, from, to, rules);
+    if (drift <= 0) return;
+
+    const level = Math.min(100, task.procrastinationLevel + drift);
+    levels[task.id] = level;
+    if (task.procrastinationLevel < rules.runAwayThreshold && level >= rules.runAwayThreshold) {
+      runaways.push(task.id);
+    }
+  });
+
+  return { levels, runaways };
+};
@@ -0,0 +1,83 @@
+import type { Task, FocusSession, Project } from '../store/useTaskStore';
+
+// Colors offered for new projects, cycled in order
+export const PROJECT_COLORS = ['#6d28d9', '#0ea5e9', '#10b981', '#f59e0b', '#ef4444', '#ec4899', '#14b8a6', '#8b5cf6'];
+
+// Filter value for tasks that aren't in any project
+export const NO_PROJECT = 'none';
+
+export interface TaskFilter {
+  projectId: string; // '' for every project, NO_PROJECT for unassigned tasks
+  tags: string[]; // a task must carry all of them
+  search: string;
+}
+
+export const EMPTY_FILTER: TaskFilter = { projectId: '', tags: [], search: '' };
+
+export interface ProjectBreakdown {
+  projectId: string; // NO_PROJECT for unassigned tasks
+  totalTasks: number;
+  completionRate: number; // 0-100
+  focusTime: number; // in seconds
+  procrastinationIndex: number; // 0-100, share of tasks that ran away
+}
+
+// Tags are case-insensitive and can't contain spaces or commas
+export const normalizeTag = (tag: string) =>
+  tag.trim().replace(/^#/, '').toLowerCase().replace(/[\s,]+/g, '-');
+
+// "Design, #client-a  urgent" -> ['design', 'client-a', 'urgent']
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(/[\s,]+/).map(normalizeTag).filter(Boolean)));
+
+// Every tag in use, alphabetically
+export const getAllTags = (tasks: Task[]): string[] =>
+  Array.from(new Set(tasks.flatMap(task => task.tags))).sort();
+
+export const isFilterActive = (filter: TaskFilter) =>
+  filter.projectId !== '' || filter.tags.length > 0 || filter.search.trim() !== '';
+
+export const matchesProject = (task: Task, projectId: string) =>
+  projectId === '' || (projectId === NO_PROJECT ? !task.projectId : task.projectId === projectId);
+
+export const filterTasks = (tasks: Task[], filter: TaskFilter): Task[] => {
+  const search = filter.search.trim().toLowerCase();
+  return tasks.filter(task =>
+    matchesProject(task, filter.projectId) &&
+    filter.tags.every(tag => task.tags.includes(tag)) &&
+    (!search || task.title.toLowerCase().includes(search) || task.description.toLowerCase().includes(search))
+  );
+};
+
+/**
+ * Completion rate, focus time and procrastination index for each project,
+ * plus a row for unassigned tasks when there are any. Sessions count towards
+ * the project their task belongs to.
+ */
+export const getProjectBreakdowns = (
+  projects: Project[],
+  tasks: Task[],
+  focusSessions: FocusSession[]
+): ProjectBreakdown[] => {
+  const breakdown = (projectId: string): ProjectBreakdown => {
+    const projectTasks = tasks.filter(task => matchesProject(task, projectId));
+    const taskIds = new Set(projectTasks.map(task => task.id));
+    const total = projectTasks.length;
+    const completed = projectTasks.filter(task => task.status === 'completed').length;
+    const runaways = projectTasks.filter(task => task.status === 'running-away').length;
+
+    return {
+      projectId,
+      totalTasks: total,
+      completionRate: total > 0 ? (completed / total) * 100 : 0,
+      focusTime: focusSessions
+        .filter(session => taskIds.has(session.taskId))
+        .reduce((sum, session) => sum + session.duration, 0),
+      procrastinationIndex: total > 0 ? (runaways / total) * 100 : 0
+    };
+  };
+
+  const rows = projects.map(project => breakdown(project.id));
+  const unassigned = breakdown(NO_PROJECT);
+  return unassigned.totalTasks > 0 ? [...rows, unassigned] : rows;
+};
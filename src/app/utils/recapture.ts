@@ -0,0 +1,23 @@
+import type { Task, EscapeRecord } from '../store/useTaskStore';
+
+// A focus session this long on a runaway task lures it back
+export const RECAPTURE_FOCUS_SECONDS = 5 * 60;
+
+// Procrastination a recaptured task comes back with, growing with every escape
+const BASE_RECAPTURE_PENALTY = 50;
+const PENALTY_PER_ESCAPE = 10;
+const MAX_RECAPTURE_PENALTY = 90;
+
+// How long after a recapture the landscape still plays the homecoming
+export const RETURN_ANIMATION_WINDOW = 2 * 60 * 1000;
+
+export const getLastEscape = (task: Task): EscapeRecord | undefined =>
+  task.escapes[task.escapes.length - 1];
+
+export const recapturePenalty = (task: Task) =>
+  Math.min(MAX_RECAPTURE_PENALTY, BASE_RECAPTURE_PENALTY + PENALTY_PER_ESCAPE * Math.max(0, task.escapes.length - 1));
+
+export const wasRecentlyRecaptured = (task: Task, now: Date = new Date()) => {
+  const recapturedAt = getLastEscape(task)?.recapturedAt;
+  return !!recapturedAt && now.getTime() - recapturedAt.getTime() < RETURN_ANIMATION_WINDOW;
+};
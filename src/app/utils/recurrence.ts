@@ -0,0 +1,110 @@
+import { addDays, addMonths, addWeeks, getDaysInMonth, isWeekend, setDate } from 'date-fns';
+import type { Task } from '../store/useTaskStore';
+
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'every-n-days'; interval: number }
+  | { type: 'every-n-weeks'; interval: number }
+  | { type: 'monthly'; dayOfMonth: number }; // clamped to the length of the month
+
+export type RecurrenceType = RecurrenceRule['type'];
+
+export const RECURRENCE_TYPES: { type: RecurrenceType; label: string }[] = [
+  { type: 'daily', label: 'Every day' },
+  { type: 'weekdays', label: 'Every weekday' },
+  { type: 'every-n-days', label: 'Every N days' },
+  { type: 'every-n-weeks', label: 'Every N weeks' },
+  { type: 'monthly', label: 'Monthly on a day' }
+];
+
+export const isRecurrenceRule = (value: unknown): value is RecurrenceRule => {
+  if (typeof value !== 'object' || value === null) return false;
+  const rule = value as Record<string, unknown>;
+  const isPositiveInteger = (n: unknown) => typeof n === 'number' && Number.isInteger(n) && n >= 1;
+
+  switch (rule.type) {
+    case 'daily':
+    case 'weekdays':
+      return true;
+    case 'every-n-days':
+    case 'every-n-weeks':
+      return isPositiveInteger(rule.interval);
+    case 'monthly':
+      return isPositiveInteger(rule.dayOfMonth) && (rule.dayOfMonth as number) <= 31;
+    default:
+      return false;
+  }
+};
+
+// The occurrence directly after `date`
+const step = (rule: RecurrenceRule, date: Date): Date => {
+  switch (rule.type) {
+    case 'daily':
+      return addDays(date, 1);
+    case 'weekdays': {
+      let next = addDays(date, 1);
+      while (isWeekend(next)) next = addDays(next, 1);
+      return next;
+    }
+    case 'every-n-days':
+      return addDays(date, rule.interval);
+    case 'every-n-weeks':
+      return addWeeks(date, rule.interval);
+    case 'monthly': {
+      // This month's day may still be ahead, e.g. the 20th after the 10th
+      const thisMonth = setDate(date, Math.min(rule.dayOfMonth, getDaysInMonth(date)));
+      if (thisMonth.getTime() > date.getTime()) return thisMonth;
+      const nextMonth = addMonths(setDate(date, 1), 1);
+      return setDate(nextMonth, Math.min(rule.dayOfMonth, getDaysInMonth(nextMonth)));
+    }
+  }
+};
+
+/**
+ * Deadline of the next instance: the first occurrence after the current
+ * deadline that is also after `now`, so finishing late skips missed slots
+ * instead of spawning an already overdue task.
+ */
+export const nextOccurrence = (rule: RecurrenceRule, previous: Date, now: Date = new Date()): Date => {
+  let next = step(rule, previous);
+  while (next.getTime() <= now.getTime()) {
+    next = step(rule, next);
+  }
+  return next;
+};
+
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'daily':
+      return 'Daily';
+    case 'weekdays':
+      return 'Weekdays';
+    case 'every-n-days':
+      return rule.interval === 1 ? 'Daily' : `Every ${rule.interval} days`;
+    case 'every-n-weeks':
+      return rule.interval === 1 ? 'Weekly' : `Every ${rule.interval} weeks`;
+    case 'monthly':
+      return `Monthly on day ${rule.dayOfMonth}`;
+  }
+};
+
+// RFC 5545 RRULE value for calendar exports
+export const recurrenceToRRule = (rule: RecurrenceRule): string => {
+  switch (rule.type) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekdays':
+      return 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR';
+    case 'every-n-days':
+      return `FREQ=DAILY;INTERVAL=${rule.interval}`;
+    case 'every-n-weeks':
+      return `FREQ=WEEKLY;INTERVAL=${rule.interval}`;
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${rule.dayOfMonth}`;
+  }
+};
+
+// Completed instances of the series a task belongs to
+export const getSeriesCompletions = (tasks: Task[], seriesId: string) =>
+  tasks.filter(t => t.seriesId === seriesId && t.status === 'completed').length;
@@ -0,0 +1,29 @@
+import type { FocusSession } from '../store/useTaskStore';
+
+// Sessions shorter than this end without asking for a reflection
+export const REFLECTION_MIN_SECONDS = 60;
+
+export const FOCUS_RATING_LABELS = ['Scattered', 'Distracted', 'Okay', 'Focused', 'In the zone'];
+
+export const isValidFocusRating = (rating: unknown): rating is number =>
+  typeof rating === 'number' && Number.isInteger(rating) && rating >= 1 && rating <= 5;
+
+// Share of reflected intentions that were met, or undefined before any was judged
+export const intentionSuccessRate = (focusSessions: FocusSession[]) => {
+  const judged = focusSessions.filter(session => session.intention && session.reflection?.intentionMet !== undefined);
+  if (judged.length === 0) return undefined;
+  return judged.filter(session => session.reflection?.intentionMet).length / judged.length;
+};
+
+// Mean 1-5 focus rating of reflected sessions, or undefined before any reflection
+export const averageFocusRating = (focusSessions: FocusSession[]) => {
+  const ratings = focusSessions.flatMap(session => session.reflection ? [session.reflection.rating] : []);
+  if (ratings.length === 0) return undefined;
+  return ratings.reduce((total, rating) => total + rating, 0) / ratings.length;
+};
+
+// Sessions of a task that came with an intention or a reflection, newest first
+export const getTaskJournal = (focusSessions: FocusSession[], taskId: string) =>
+  focusSessions
+    .filter(session => session.taskId === taskId && (session.intention || session.reflection))
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
@@ -0,0 +1,95 @@
+import type { FocusSession } from '../store/useTaskStore';
+
+// Pause-aware accounting of focus sessions
+
+export interface SessionTimes {
+  real: number; // seconds actually spent focusing, pauses left out
+  perceived: number; // seconds the (possibly distorted) countdown moved
+}
+
+// Seconds two time ranges have in common
+const overlapSeconds = (start: number, end: number, otherStart: number, otherEnd: number) =>
+  Math.max(0, Math.min(end, otherEnd) - Math.max(start, otherStart)) / 1000;
+
+// Seconds of [start, end] the session spent paused; an open pause lasts until `end`
+const pausedSecondsBetween = (session: FocusSession, start: number, end: number) =>
+  session.pauses.reduce((total, pause) =>
+    total + overlapSeconds(start, end, pause.pausedAt.getTime(), (pause.resumedAt ?? new Date(end)).getTime()), 0);
+
+/**
+ * Real and perceived time of a session up to `endTime`. Every segment runs
+ * at the countdown rate it recorded until the next one starts; time not
+ * covered by a segment (e.g. in sessions logged by hand) ran in real time.
+ */
+export const getSessionTimes = (session: FocusSession, endTime: Date): SessionTimes => {
+  const start = session.startTime.getTime();
+  const end = Math.max(start, endTime.getTime());
+  const real = (end - start) / 1000 - pausedSecondsBetween(session, start, end);
+
+  const perceived = session.segments.reduce((total, segment, index) => {
+    const segmentStart = Math.max(start, segment.startTime.getTime());
+    const segmentEnd = Math.min(end, session.segments[index + 1]?.startTime.getTime() ?? end);
+    if (segmentEnd <= segmentStart) return total;
+    const focused = (segmentEnd - segmentStart) / 1000 - pausedSecondsBetween(session, segmentStart, segmentEnd);
+    return total + focused * (segment.rate - 1);
+  }, real);
+
+  return { real, perceived };
+};
+
+// The session moved to new start and end times, with its durations recomputed
+export const retimeSession = (session: FocusSession, startTime: Date, endTime: Date): FocusSession => {
+  const retimed = { ...session, startTime, endTime };
+  const { real, perceived } = getSessionTimes(retimed, endTime);
+  return { ...retimed, duration: real, perceivedDuration: perceived };
+};
+
+// Countdown rate in effect at `at`
+const rateAt = (session: FocusSession, at: number) =>
+  session.segments.filter(segment => segment.startTime.getTime() <= at).pop()?.rate ?? 1;
+
+/**
+ * Cut a finished session in two at `at`. Pauses running across the cut are
+ * split as well, and the second part carries on at the rate in effect.
+ */
+export const splitSession = (session: FocusSession, at: Date, secondId: string): [FocusSession, FocusSession] => {
+  const cut = at.getTime();
+  const endTime = session.endTime ?? at;
+
+  const first: FocusSession = {
+    ...session,
+    pauses: session.pauses
+      .filter(pause => pause.pausedAt.getTime() < cut)
+      .map(pause => (pause.resumedAt?.getTime() ?? Infinity) > cut ? { ...pause, resumedAt: at } : pause),
+    segments: session.segments.filter(segment => segment.startTime.getTime() < cut),
+    interruptions: session.interruptions.filter(interruption => interruption.loggedAt.getTime() < cut)
+  };
+  const second: FocusSession = {
+    ...session,
+    id: secondId,
+    pauses: session.pauses
+      .filter(pause => (pause.resumedAt?.getTime() ?? Infinity) > cut)
+      .map(pause => pause.pausedAt.getTime() < cut ? { ...pause, pausedAt: at } : pause),
+    segments: [
+      { startTime: at, rate: rateAt(session, cut) },
+      ...session.segments.filter(segment => segment.startTime.getTime() > cut)
+    ],
+    interruptions: session.interruptions.filter(interruption => interruption.loggedAt.getTime() >= cut)
+  };
+
+  return [retimeSession(first, session.startTime, at), retimeSession(second, at, endTime)];
+};
+
+// Change in focused seconds per task between two versions of the session log
+export const timeSpentDeltas = (before: FocusSession[], after: FocusSession[]): Map<string, number> => {
+  const deltas = new Map<string, number>();
+  const add = (session: FocusSession, sign: number) =>
+    deltas.set(session.taskId, (deltas.get(session.taskId) ?? 0) + sign * session.duration);
+
+  before.forEach(session => add(session, -1));
+  after.forEach(session => add(session, 1));
+  return deltas;
+};
+
+// How much longer (or, with time flowing backward, shorter) a session felt
+export const warpedSeconds = (session: FocusSession) => session.perceivedDuration - session.duration;
@@ -0,0 +1,72 @@
+import type { AlertEvent } from './alerts';
+
+// Chimes are synthesized with Web Audio, so no sound files are needed
+
+interface Tone {
+  frequency: number; // Hz
+  offset: number; // seconds after the chime starts
+  length: number; // seconds
+}
+
+const CHIMES: Record<AlertEvent, Tone[]> = {
+  // Rising major arpeggio: well done
+  'session-end': [
+    { frequency: 523.25, offset: 0, length: 0.4 },
+    { frequency: 659.25, offset: 0.15, length: 0.4 },
+    { frequency: 783.99, offset: 0.3, length: 0.4 },
+    { frequency: 1046.5, offset: 0.45, length: 0.8 }
+  ],
+  // Two notes up: back to it
+  'break-end': [
+    { frequency: 392, offset: 0, length: 0.3 },
+    { frequency: 523.25, offset: 0.2, length: 0.6 }
+  ],
+  // Three quick beeps
+  'deadline': [
+    { frequency: 880, offset: 0, length: 0.12 },
+    { frequency: 880, offset: 0.2, length: 0.12 },
+    { frequency: 880, offset: 0.4, length: 0.12 }
+  ],
+  // Falling minor line, the sound of a task leaving
+  'runaway': [
+    { frequency: 659.25, offset: 0, length: 0.25 },
+    { frequency: 523.25, offset: 0.2, length: 0.25 },
+    { frequency: 440, offset: 0.4, length: 0.6 }
+  ]
+};
+
+const PEAK_GAIN = 0.25;
+
+let context: AudioContext | undefined;
+
+// Browsers only let audio start after a user gesture, so the context is
+// created lazily and resumed on every chime
+const getContext = () => {
+  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return undefined;
+  context ??= new AudioContext();
+  if (context.state === 'suspended') void context.resume();
+  return context;
+};
+
+export const playChime = (event: AlertEvent) => {
+  const audio = getContext();
+  if (!audio) return;
+
+  const start = audio.currentTime;
+  CHIMES[event].forEach(tone => {
+    const oscillator = audio.createOscillator();
+    const gain = audio.createGain();
+    const toneStart = start + tone.offset;
+
+    oscillator.type = 'sine';
+    oscillator.frequency.value = tone.frequency;
+    // Short attack and an exponential tail, so notes ring instead of click
+    gain.gain.setValueAtTime(0.0001, toneStart);
+    gain.gain.exponentialRampToValueAtTime(PEAK_GAIN, toneStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, toneStart + tone.length);
+
+    oscillator.connect(gain).connect(audio.destination);
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + tone.length + 0.05);
+  });
+};
@@ -0,0 +1,116 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import type { FocusSession, Task } from '../store/useTaskStore';
+import { dayKey } from './pomodoro';
+
+// Daily streaks, recomputed from the task and session history
+
+export interface StreakSettings {
+  minFocusMinutes: number; // focus needed for a day to count, 0 is any at all
+  minTasksCompleted: number; // completed tasks needed for a day to count, 0 is any at all
+  requireBoth: boolean; // both focus and completed tasks, instead of either
+  restDays: number[]; // weekdays (0 is Sunday) that neither count nor break a streak
+  freezesPerMonth: number; // missed days forgiven per calendar month
+}
+
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = {
+  minFocusMinutes: 25,
+  minTasksCompleted: 1,
+  requireBoth: false,
+  restDays: [],
+  freezesPerMonth: 0
+};
+
+export interface DayActivity {
+  focusSeconds: number;
+  tasksCompleted: number;
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  lastActiveDay?: Date; // local midnight of the most recent active day
+  frozenDays: string[]; // yyyy-MM-dd of missed days a freeze was spent on
+}
+
+const addActivity = (activity: Map<string, DayActivity>, day: string, update: Partial<DayActivity>) => {
+  const current = activity.get(day) ?? { focusSeconds: 0, tasksCompleted: 0 };
+  activity.set(day, {
+    focusSeconds: current.focusSeconds + (update.focusSeconds ?? 0),
+    tasksCompleted: current.tasksCompleted + (update.tasksCompleted ?? 0)
+  });
+};
+
+/**
+ * Focus time and completed tasks per local calendar day. A session running
+ * past midnight counts towards both days, in proportion to its time in each.
+ */
+export const getDailyActivity = (tasks: Task[], focusSessions: FocusSession[]): Map<string, DayActivity> => {
+  const activity = new Map<string, DayActivity>();
+
+  tasks.forEach(task => {
+    if (task.status === 'completed' && task.completedAt) addActivity(activity, dayKey(task.completedAt), { tasksCompleted: 1 });
+  });
+
+  focusSessions.forEach(session => {
+    const start = session.startTime.getTime();
+    const end = session.endTime?.getTime() ?? start;
+    if (end <= start) {
+      if (session.duration > 0) addActivity(activity, dayKey(session.startTime), { focusSeconds: session.duration });
+      return;
+    }
+
+    // Walk the calendar days, not 24h steps, so DST days have their real length
+    for (let day = startOfDay(session.startTime); day.getTime() < end; day = addDays(day, 1)) {
+      const overlap = Math.min(end, addDays(day, 1).getTime()) - Math.max(start, day.getTime());
+      addActivity(activity, dayKey(day), { focusSeconds: session.duration * overlap / (end - start) });
+    }
+  });
+
+  return activity;
+};
+
+export const isActiveDay = (activity: DayActivity | undefined, settings: StreakSettings) => {
+  if (!activity) return false;
+  const focusMet = activity.focusSeconds > 0 && activity.focusSeconds >= settings.minFocusMinutes * 60;
+  const tasksMet = activity.tasksCompleted > 0 && activity.tasksCompleted >= settings.minTasksCompleted;
+  return settings.requireBoth ? focusMet && tasksMet : focusMet || tasksMet;
+};
+
+/**
+ * Walk every day from the first active one up to `now`. Active days extend
+ * the streak, rest days are skipped and other missed days either use up a
+ * freeze or end it. Today can't break a streak, it isn't over yet.
+ */
+export const computeStreaks = (
+  activity: Map<string, DayActivity>,
+  settings: StreakSettings,
+  now: Date = new Date()
+): StreakSummary => {
+  const activeDays = Array.from(activity.keys()).filter(day => isActiveDay(activity.get(day), settings)).sort();
+  const summary: StreakSummary = { currentStreak: 0, longestStreak: 0, frozenDays: [] };
+  if (activeDays.length === 0) return summary;
+
+  const today = startOfDay(now);
+  const freezesUsed = new Map<string, number>(); // per yyyy-MM
+  const [year, month, date] = activeDays[0].split('-').map(Number);
+
+  for (let day = new Date(year, month - 1, date); day.getTime() <= today.getTime(); day = addDays(day, 1)) {
+    const key = dayKey(day);
+    const monthKey = format(day, 'yyyy-MM');
+
+    if (isActiveDay(activity.get(key), settings)) {
+      summary.currentStreak++;
+      summary.longestStreak = Math.max(summary.longestStreak, summary.currentStreak);
+      summary.lastActiveDay = day;
+    } else if (day.getTime() === today.getTime() || settings.restDays.includes(day.getDay()) || summary.currentStreak === 0) {
+      continue;
+    } else if ((freezesUsed.get(monthKey) ?? 0) < settings.freezesPerMonth) {
+      freezesUsed.set(monthKey, (freezesUsed.get(monthKey) ?? 0) + 1);
+      summary.frozenDays.push(key);
+    } else {
+      summary.currentStreak = 0;
+    }
+  }
+
+  return summary;
+};
@@ -0,0 +1,19 @@
+import type { Task } from '../store/useTaskStore';
+
+// How much procrastination is forgiven when a checklist step is completed
+export const SUBTASK_PROCRASTINATION_RELIEF = 10;
+
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+  ratio: number; // 0-1, 0 when the task has no checklist
+}
+
+export const getSubtaskProgress = (task: Task): SubtaskProgress => {
+  const total = task.subtasks.length;
+  const completed = task.subtasks.filter(st => st.isCompleted).length;
+  return { completed, total, ratio: total > 0 ? completed / total : 0 };
+};
+
+// Tasks that are mostly done feel less urgent and are harder to avoid
+export const progressDampening = (task: Task) => 1 - getSubtaskProgress(task).ratio * 0.5;
@@ -0,0 +1,27 @@
+/**
+ * Call `onTick` every `interval` milliseconds, aimed at fixed points in time
+ * from the start instead of chaining plain intervals, so small delays don't
+ * add up. Ticks missed during a stall are skipped rather than fired in a
+ * burst. Returns a function that stops the ticker.
+ */
+export const startTicker = (
+  interval: number,
+  onTick: (now: number) => void,
+  clock: () => number = Date.now
+): (() => void) => {
+  const start = clock();
+  let count = 0;
+  let timeout: ReturnType<typeof setTimeout>;
+
+  const schedule = () => {
+    const now = clock();
+    count = Math.max(count + 1, Math.floor((now - start) / interval) + 1);
+    timeout = setTimeout(() => {
+      onTick(clock());
+      schedule();
+    }, start + count * interval - now);
+  };
+
+  schedule();
+  return () => clearTimeout(timeout);
+};
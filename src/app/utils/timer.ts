@@ -0,0 +1,90 @@
+import type { FocusState } from '../store/useTaskStore';
+import { CLASSIC_PROFILE, DistortionProfile, curveRate } from './distortion';
+
+// Pure helpers for the focus timer engine that lives in the store
+
+export type TimerPhase = 'idle' | 'running' | 'distorted' | 'paused' | 'completed';
+export type IntervalKind = 'work' | 'short-break' | 'long-break';
+
+export interface FocusTimerState {
+  phase: TimerPhase;
+  kind: IntervalKind; // what the countdown is timing (or just timed, once completed)
+  taskId?: string; // task of the running session, if any
+  startedAt?: Date; // start of the current interval
+  duration: number; // planned length in seconds
+  remaining: number; // seconds left at `anchoredAt`
+  anchoredAt?: Date; // set while the clock is moving
+  distortionLevel: number; // 0-100
+  profile: DistortionProfile; // curve picked when the interval started
+  completedWork: number; // work intervals finished since the last long break
+}
+
+export const DEFAULT_TIMER_DURATION = 25 * 60;
+
+export const IDLE_TIMER: FocusTimerState = {
+  phase: 'idle',
+  kind: 'work',
+  duration: DEFAULT_TIMER_DURATION,
+  remaining: DEFAULT_TIMER_DURATION,
+  distortionLevel: 0,
+  profile: CLASSIC_PROFILE,
+  completedWork: 0
+};
+
+export const isTimerActive = (timer: FocusTimerState) =>
+  timer.phase === 'running' || timer.phase === 'distorted' || timer.phase === 'paused';
+
+const isTicking = (timer: FocusTimerState) =>
+  (timer.phase === 'running' || timer.phase === 'distorted') && !!timer.anchoredAt;
+
+// How fast the countdown runs, following the session's distortion curve
+export const timerRate = (timer: FocusTimerState) =>
+  timer.phase === 'distorted' ? curveRate(timer.profile.rates, timer.distortionLevel) : 1;
+
+// Seconds left on the countdown at `now`
+export const getRemaining = (timer: FocusTimerState, now: Date = new Date()): number => {
+  if (!isTicking(timer)) return timer.remaining;
+  const elapsed = (now.getTime() - (timer.anchoredAt as Date).getTime()) / 1000;
+  return Math.max(0, timer.remaining - elapsed * timerRate(timer));
+};
+
+/**
+ * Bake the time elapsed so far into `remaining` and restart the clock at
+ * `now`. Needed before anything that changes the rate.
+ */
+export const anchorTimer = (timer: FocusTimerState, now: Date = new Date()): FocusTimerState => ({
+  ...timer,
+  remaining: getRemaining(timer, now),
+  anchoredAt: isTicking(timer) ? now : undefined
+});
+
+/**
+ * The moment the countdown reached zero, or undefined if it hasn't yet.
+ * Lets a timer that ran out while the page was closed end its session at
+ * the right time instead of when the page is opened again.
+ */
+export const getCompletionTime = (timer: FocusTimerState, now: Date = new Date()): Date | undefined => {
+  if (!isTicking(timer) || getRemaining(timer, now) > 0) return undefined;
+  const anchoredAt = (timer.anchoredAt as Date).getTime();
+  return new Date(Math.min(now.getTime(), anchoredAt + (timer.remaining / timerRate(timer)) * 1000));
+};
+
+// "24:59"
+export const formatCountdown = (seconds: number): string => {
+  const whole = Math.ceil(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// What the rest of the app should show for the timer
+export const timerFocusState = ({ phase, kind }: Pick<FocusTimerState, 'phase' | 'kind'>): FocusState => {
+  switch (phase) {
+    case 'running':
+      return kind === 'work' ? 'focus' : 'break';
+    case 'distorted':
+      return 'distorted';
+    case 'completed':
+      return kind === 'work' ? 'break' : 'idle';
+    default:
+      return 'idle';
+  }
+};